@@ -1,18 +1,77 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeText, generateSpeech } from './services/geminiService';
+import { analyzeText, AnalysisProgress, hasGeminiApiKey } from './services/geminiService';
+import { analyzeTextLocally } from './services/localAnalyzer';
+import { getSpeechProvider, defaultSpeechProviderId, synthesizeSpeech, SPEECH_PROVIDERS } from './services/speechProviders';
 import { 
   getAudioContext, 
   generateTrackBuffers,
-  generateSFX
+  generateSFX,
+  createMixGraph,
+  startMixGraph,
+  scheduleDucking,
+  DEFAULT_DUCKING,
+  MixGraph,
+  renderMixdown,
+  int16ToAudioBuffer,
+  createFillerSpeech,
+  SAMPLE_RATE
 } from './services/audioEngine';
+import { exportMasterMix, exportStems } from './services/exportService';
+import { AsyncJobQueue } from './services/jobQueue';
+import { createSpeechTasks, speechContext, speechTaskContext, speechTaskSignature, getRenderedSpeech, storeRenderedSpeech } from './services/speechTasks';
+import { updateSegment, splitSegment, mergeWithNext, insertSegmentAfter, deleteSegment, applyMarkupAt } from './services/scriptEditing';
+import { exportBook } from './services/bookExport';
+import { exportSubtitles } from './services/subtitleExport';
+import { importEpub } from './services/epubImporter';
+import { parseFountain, isFountainFile } from './services/fountainParser';
+import BookPanel from './components/BookPanel';
+import ChapterPicker from './components/ChapterPicker';
+import ReadAlongText from './components/ReadAlongText';
+import SegmentEditor from './components/SegmentEditor';
+import CastingPanel from './components/CastingPanel';
+import CharacterBiblePanel from './components/CharacterBiblePanel';
+import SpeakerGroups from './components/SpeakerGroups';
+import LexiconPanel from './components/LexiconPanel';
+import SynthesisFailures from './components/SynthesisFailures';
+import SceneStrip from './components/SceneStrip';
+import MasteringPanel from './components/MasteringPanel';
+import DuckingControls from './components/DuckingControls';
+import { applyLexicon, pronunciationInstruction } from './services/lexicon';
+import { resolveSpeakers, applySpeakerGroups, splitSpeakerVariant } from './services/characterResolver';
+import { applyDirectionMarkup } from './services/directionMarkup';
+import { alignSegments } from './services/alignment';
+import { masterMix, MASTERING_TARGETS } from './services/mastering';
+import { decodeImpulse } from './services/reverb';
+import { primaryScene, segmentSceneIds, updateScene, startSceneAt, mergeSceneIntoPrevious } from './services/scenes';
+import { loadBible, saveBible, findBibleEntry, upsertBibleEntry, castFromBible, exportBible, importBible } from './services/characterBible';
+import ProjectsPanel from './components/ProjectsPanel';
+import { listProjects, saveProject, loadProject, duplicateProject, deleteProject, createProjectId } from './services/projectStore';
 import { 
   AnalysisResult, 
   CharacterProfile, 
-  AVAILABLE_VOICES, 
   ProcessingState,
   AudioTracks,
-  ParsedSegment
+  ParsedSegment,
+  ExportFormat,
+  Book,
+  ImportedManuscript,
+  ScriptFormat,
+  AnalyzerId,
+  SubtitleFormat,
+  SegmentTiming,
+  ProjectSummary,
+  MixLevels,
+  SpeechProviderId,
+  CharacterBibleEntry,
+  LexiconEntry,
+  SynthesisFailure,
+  SceneContext,
+  MasteringTargetId,
+  MasteringReport,
+  DuckingSettings,
+  CustomImpulse,
+  FillerKind
 } from './types';
 import { 
   PlayIcon, 
@@ -25,8 +84,15 @@ import {
   UserIcon,
   BoltIcon,
   MapPinIcon,
-  FaceSmileIcon,
-  ClockIcon
+  ClockIcon,
+  ArrowDownTrayIcon,
+  ArchiveBoxArrowDownIcon,
+  BackwardIcon,
+  ForwardIcon,
+  PencilSquareIcon,
+  PlusIcon,
+  LinkIcon,
+  TrashIcon
 } from '@heroicons/react/24/solid';
 
 const DEFAULT_TEXT = `The old house stood silent on the hill. 
@@ -36,52 +102,9 @@ Thunder rumbled overhead, shaking the ground beneath them.
 "Did you hear that?" Sarah asked, her voice trembling.
 The front door creaked open slowly, revealing the darkness inside.`;
 
-class AsyncJobQueue {
-  private concurrency: number;
-  private active: number = 0;
-  private queue: (() => Promise<void>)[] = [];
-
-  constructor(concurrency: number = 4) {
-    this.concurrency = concurrency;
-  }
-
-  add<T>(task: () => Promise<T>): Promise<T> {
-    return new Promise((resolve, reject) => {
-      const wrapper = async () => {
-        try {
-           const result = await task();
-           resolve(result);
-        } catch (e) {
-           reject(e);
-        } finally {
-           this.active--;
-           this.next();
-        }
-      };
-      this.queue.push(wrapper);
-      this.next();
-    });
-  }
-
-  private next() {
-    if (this.active >= this.concurrency || this.queue.length === 0) return;
-    this.active++;
-    const task = this.queue.shift();
-    task?.();
-  }
-}
-
 const ttsQueue = new AsyncJobQueue(24); 
 const sfxQueue = new AsyncJobQueue(12);
 
-interface SpeechTask {
-   startIndex: number;
-   indices: number[];
-   textToSpeak: string;
-   speaker: string;
-   isNarrator: boolean;
-}
-
 export default function App() {
   const [text, setText] = useState<string>(DEFAULT_TEXT);
   const [status, setStatus] = useState<ProcessingState>('idle');
@@ -90,11 +113,47 @@ export default function App() {
   const [audioTracks, setAudioTracks] = useState<AudioTracks | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [progress, setProgress] = useState(0); 
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [scrubProgress, setScrubProgress] = useState<number | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [volDialogue, setVolDialogue] = useState(0.8);
   const [volScore, setVolScore] = useState(0.15); 
   const [volAmbience, setVolAmbience] = useState(0.5); 
   const [volSFX, setVolSFX] = useState(0.75); // Ensure 75% default
   const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
+  const [ducking, setDucking] = useState<DuckingSettings>(DEFAULT_DUCKING);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | 'stems' | null>(null);
+  const [book, setBook] = useState<Book>({ metadata: { title: 'Untitled Audiobook', author: '' }, chapters: [] });
+  const [isAddingChapter, setIsAddingChapter] = useState(false);
+  const [bookExportFormat, setBookExportFormat] = useState<ExportFormat | null>(null);
+  const [importedManuscript, setImportedManuscript] = useState<ImportedManuscript | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [scriptFormat, setScriptFormat] = useState<ScriptFormat>('prose');
+  const [analyzerId, setAnalyzerId] = useState<AnalyzerId>(() => hasGeminiApiKey() ? 'gemini' : 'local');
+  const [analysisNotice, setAnalysisNotice] = useState<string | null>(null);
+  const [speechProviderId, setSpeechProviderId] = useState<SpeechProviderId>(defaultSpeechProviderId);
+  const [stereoMix, setStereoMix] = useState(true);
+  const [impulses, setImpulses] = useState<CustomImpulse[]>([]);
+  const [impulseError, setImpulseError] = useState<string | null>(null);
+  const [masteringTarget, setMasteringTarget] = useState<MasteringTargetId>('acx');
+  const [mastered, setMastered] = useState<{ buffer: AudioBuffer, report: MasteringReport } | null>(null);
+  const [isCheckingMaster, setIsCheckingMaster] = useState(false);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectCreatedAt, setProjectCreatedAt] = useState<number>(Date.now());
+  const [projectName, setProjectName] = useState('Untitled Project');
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [auditioning, setAuditioning] = useState<string | null>(null);
+  const [characterBible, setCharacterBible] = useState<CharacterBibleEntry[]>(loadBible);
+  const [bibleError, setBibleError] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [bookError, setBookError] = useState<string | null>(null);
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>([]);
+  const [testingLexiconId, setTestingLexiconId] = useState<string | null>(null);
+  const [synthesisFailures, setSynthesisFailures] = useState<SynthesisFailure[]>([]);
 
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourcesRef = useRef<{
@@ -103,6 +162,7 @@ export default function App() {
     ambience: AudioBufferSourceNode | null;
     sfx: AudioBufferSourceNode | null;
   }>({ dialogue: null, score: null, ambience: null, sfx: null });
+  const graphRef = useRef<MixGraph | null>(null);
   const gainsRef = useRef<{
     dialogue: GainNode | null;
     score: GainNode | null;
@@ -110,132 +170,358 @@ export default function App() {
     sfx: GainNode | null;
   }>({ dialogue: null, score: null, ambience: null, sfx: null });
 
+  const scriptScrollRef = useRef<HTMLDivElement | null>(null);
+  const segmentRefs = useRef(new Map<string, HTMLDivElement>());
+
   const startTimeRef = useRef<number>(0);
   const pauseTimeRef = useRef<number>(0);
   const prevSpeedRef = useRef<number>(1.0);
 
-  const NARRATOR_CONTEXT = "Strictly matter-of-fact delivery. Professional, neutral narrator. No emotion.";
-
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => setText(event.target?.result as string);
-      reader.readAsText(file);
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    if (file.name.toLowerCase().endsWith('.epub')) {
+      try {
+        setImportedManuscript(await importEpub(file));
+      } catch (err) {
+        setImportError(err instanceof Error ? err.message : 'Could not read EPUB');
+      }
+      return;
     }
+    setScriptFormat(isFountainFile(file.name) ? 'fountain' : 'prose');
+    const reader = new FileReader();
+    reader.onload = (event) => setText(event.target?.result as string);
+    reader.readAsText(file);
   };
 
-  const createSpeechTasks = (segments: ParsedSegment[]): SpeechTask[] => {
-      const tasks: SpeechTask[] = [];
-      let currentTask: SpeechTask | null = null;
-      segments.forEach((seg, index) => {
-         let canMerge = false;
-         if (currentTask) {
-             const prevSeg = segments[currentTask.indices[currentTask.indices.length-1]];
-             if (seg.speaker === currentTask.speaker && 
-                 seg.isNarrator === currentTask.isNarrator &&
-                 !seg.sfx && !prevSeg.sfx) {
-                 canMerge = true;
-             }
-         }
-         if (canMerge && currentTask) {
-             currentTask.indices.push(index);
-             const space = seg.text.startsWith(' ') ? '' : ' ';
-             currentTask.textToSpeak += space + seg.text;
-         } else {
-             if (currentTask) tasks.push(currentTask);
-             currentTask = {
-                 startIndex: index,
-                 indices: [index],
-                 textToSpeak: seg.text,
-                 speaker: seg.speaker,
-                 isNarrator: seg.isNarrator
-             };
-         }
-      });
-      if (currentTask) tasks.push(currentTask);
-      return tasks;
+  const handleChapterSelection = (chapterIds: string[]) => {
+    if (!importedManuscript) return;
+    const chosen = importedManuscript.chapters.filter(c => chapterIds.includes(c.id));
+    // Scene-break markers between chapters give the chunked analyzer natural cut points
+    setText(chosen.map(c => `${c.title}\n\n${c.text}`).join('\n\n* * *\n\n'));
+    const { metadata } = importedManuscript;
+    setBook(prev => ({ ...prev, metadata: { ...prev.metadata, ...metadata, cover: metadata.cover || prev.metadata.cover } }));
+    setScriptFormat('prose');
+    setImportedManuscript(null);
   };
 
+  const speechProvider = getSpeechProvider(speechProviderId);
+
   const prefetchAudio = (result: AnalysisResult, profiles: CharacterProfile[]) => {
-      const tasks = createSpeechTasks(result.segments);
+      // Local synthesis is instant and uncached; only worth warming a network provider
+      if (!speechProvider.requiresNetwork) return;
+      const tasks = createSpeechTasks(result.segments, lexicon);
       tasks.forEach(task => {
           if (!task.textToSpeak.trim()) return;
           const profile = profiles.find(p => p.name === task.speaker);
-          const voiceId = profile?.voiceId || 'Puck'; 
-          const context = task.isNarrator 
-            ? NARRATOR_CONTEXT
-            : `Character: ${task.speaker}. Deliver text with emotion: ${result.segments[task.startIndex].emotion}.`;
-          generateSpeech(task.textToSpeak, voiceId, context).catch(() => {});
+          const voiceId = profile?.voiceId || speechProvider.defaultVoiceId; 
+          const context = speechTaskContext(task, result.segments, profile?.notes, lexicon);
+          speechProvider.synthesize(task.textToSpeak, voiceId, context).catch(() => {});
       });
   };
 
+  // Every casting decision lands in the bible; current profiles pick up edited notes straight away
+  const updateBible = (bible: CharacterBibleEntry[]) => {
+    setCharacterBible(bible);
+    setCharacterProfiles(prev => prev.map(p => {
+      const entry = findBibleEntry(bible, p.name);
+      return entry ? { ...p, notes: entry.notes || undefined } : p;
+    }));
+    try {
+      saveBible(bible);
+    } catch (err) {
+      setBibleError('Could not save the character bible.');
+    }
+  };
+
+  const narratorVoice = () => {
+    const entry = findBibleEntry(characterBible, 'Narrator');
+    return entry && speechProvider.voices.some(v => v.id === entry.voiceId) ? entry.voiceId : speechProvider.narratorVoiceId;
+  };
+
+  const handleImportBible = async (file: File) => {
+    setBibleError(null);
+    try {
+      updateBible(await importBible(file, characterBible));
+    } catch (err) {
+      setBibleError('Could not read that character bible.');
+    }
+  };
+
   const handleAnalyze = async () => {
     if (!text.trim()) return;
     setStatus('analyzing');
     setParsedData(null);
     setAudioTracks(null);
     setProgress(0);
+    setPlayhead(null);
+    setAnalysisNotice(null);
+    setSynthesisFailures([]);
     pauseTimeRef.current = 0;
     try {
-      const result = await analyzeText(text);
+      // Screenplays name their speakers explicitly, so they skip model attribution entirely
+      const attributed = scriptFormat === 'fountain'
+        ? parseFountain(text)
+        : analyzerId === 'local'
+          ? analyzeTextLocally(text)
+          : await analyzeText(text, setAnalysisProgress).catch(err => {
+              setAnalysisNotice('AI analysis failed; attribution used offline rules.');
+              return analyzeTextLocally(text);
+            });
+      // Inline [pause]/[whisper]/[sfx:] markup becomes timing, delivery and cues; spoken text loses it
+      const directed = applyDirectionMarkup(attributed.segments);
+      // "Sarah", "Sarah Jenkins" and "Miss Jenkins" are cast as one character unless the user splits them
+      const speakerGroups = resolveSpeakers(directed, characterBible);
+      const result: AnalysisResult = { ...attributed, segments: applySpeakerGroups(directed, speakerGroups), speakerGroups };
       setParsedData(result);
       const uniqueSpeakers = Array.from(new Set(result.segments.map(s => s.speaker).filter(s => s !== 'Narrator')));
-      const isThirdPerson = result.scene.narrativePerspective === 'third_person';
-      const profiles: CharacterProfile[] = uniqueSpeakers.map(name => {
-        const segment = result.segments.find(s => s.speaker === name);
-        const gender = segment?.gender || 'neutral';
-        const pool = AVAILABLE_VOICES.filter(v => (gender === 'neutral' ? true : v.gender === gender) && (isThirdPerson ? v.id !== 'Fenrir' : true));
-        const voice = pool.length > 0 ? pool[Math.floor(Math.random() * pool.length)] : AVAILABLE_VOICES[0];
-        return { name, gender: gender as any, voiceId: voice.id };
-      });
-      let narratorVoiceId = 'Fenrir'; 
+      const isThirdPerson = primaryScene(result).narrativePerspective === 'third_person';
+      let narratorVoiceId = narratorVoice();
+      const cast = castFromBible(
+        uniqueSpeakers.map(name => ({ name, gender: result.segments.find(s => s.speaker === name)?.gender || 'neutral' })),
+        characterBible,
+        speechProvider.voices,
+        isThirdPerson ? [narratorVoiceId] : []
+      );
+      // New speakers reach the bible at synthesis, once the user has had the chance to split groups
+      const profiles: CharacterProfile[] = cast.profiles;
       if (!isThirdPerson) {
-         const protag = result.scene.protagonistName;
+         const protag = primaryScene(result).protagonistName;
          let p = profiles.find(pr => pr.name === protag) || profiles.find(pr => pr.name === 'I' || pr.name === 'Me');
          if (p) narratorVoiceId = p.voiceId;
       }
-      profiles.push({ name: 'Narrator', gender: 'male', voiceId: narratorVoiceId });
+      profiles.push({ name: 'Narrator', gender: 'male', voiceId: narratorVoiceId, notes: findBibleEntry(characterBible, 'Narrator')?.notes || undefined });
       setCharacterProfiles(profiles);
       setStatus('reviewing');
       prefetchAudio(result, profiles);
     } catch (err) {
       setStatus('error');
+    } finally {
+      setAnalysisProgress(null);
+    }
+  };
+
+  const canEditScript = status === 'reviewing' || status === 'playing';
+
+  // Profiles follow the script: new speakers are cast on the spot, speakers no longer in it are dropped.
+  // The bible only learns them at synthesis, so half-typed names never reach it.
+  const editSegments = (edit: (segments: ParsedSegment[]) => ParsedSegment[]) => {
+    if (!parsedData) return;
+    const segments = edit(parsedData.segments);
+    setParsedData({ ...parsedData, segments });
+    const speakers = new Set(segments.filter(s => !s.isNarrator && s.speaker.trim()).map(s => s.speaker));
+    setCharacterProfiles(prev => {
+      const kept = prev.filter(p => p.name === 'Narrator' || speakers.has(p.name));
+      const newcomers = [...speakers].filter(name => !kept.some(p => p.name === name));
+      if (newcomers.length === 0 && kept.length === prev.length) return prev;
+      const { profiles } = castFromBible(
+        newcomers.map(name => ({ name, gender: segments.find(s => s.speaker === name)!.gender })),
+        characterBible,
+        speechProvider.voices,
+        kept.map(p => p.voiceId)
+      );
+      return [...kept, ...profiles];
+    });
+  };
+
+  const handleSplitSpeaker = (canonical: string, variant: string) => {
+    if (!parsedData) return;
+    const split = splitSpeakerVariant(parsedData.segments, parsedData.speakerGroups ?? [], canonical, variant);
+    editSegments(() => split.segments);
+    setParsedData(prev => prev && { ...prev, speakerGroups: split.groups });
+  };
+
+  // Confirmed variants become bible aliases, so later chapters merge them without asking
+  const handleConfirmSpeakerGroup = (canonical: string) => {
+    if (!parsedData?.speakerGroups) return;
+    const group = parsedData.speakerGroups.find(g => g.canonical === canonical);
+    if (!group) return;
+    setParsedData({ ...parsedData, speakerGroups: parsedData.speakerGroups.map(g => g === group ? { ...g, confirmed: true } : g) });
+    const variants = group.variants.filter(v => v !== canonical);
+    const entry = findBibleEntry(characterBible, canonical);
+    const profile = characterProfiles.find(p => p.name === canonical);
+    if (!entry && !profile) return;
+    const base = entry ?? { name: canonical, gender: profile!.gender, voiceId: profile!.voiceId, aliases: [], notes: '' };
+    updateBible(upsertBibleEntry(characterBible, { ...base, aliases: Array.from(new Set([...base.aliases, ...variants])) }));
+  };
+
+  const handleSplitSegment = (index: number, at: number) => {
+    editSegments(segments => applyMarkupAt(applyMarkupAt(splitSegment(segments, index, at), index + 1), index));
+  };
+
+  const commitEditing = () => {
+    const id = editingSegmentId;
+    if (id) editSegments(segments => applyMarkupAt(segments, segments.findIndex(s => s.id === id)));
+    setEditingSegmentId(null);
+  };
+
+  const handleInsertSegment = (index: number) => {
+    if (!parsedData) return;
+    const segments = insertSegmentAfter(parsedData.segments, index);
+    editSegments(() => segments);
+    setEditingSegmentId(segments[index + 1].id);
+  };
+
+  const handleDeleteSegment = (index: number) => {
+    editSegments(segments => deleteSegment(segments, index));
+    setEditingSegmentId(null);
+  };
+
+  const handleSceneChange = (id: string, patch: Partial<SceneContext>) => {
+    setParsedData(prev => prev && { ...prev, scenes: updateScene(prev.scenes, id, patch) });
+  };
+
+  const handleStartScene = (index: number) => {
+    setParsedData(prev => prev && startSceneAt(prev, index));
+  };
+
+  const handleMergeScene = (id: string) => {
+    setParsedData(prev => prev && mergeSceneIntoPrevious(prev, id));
+  };
+
+  const handleUploadImpulse = async (sceneId: string, file: File) => {
+    setImpulseError(null);
+    try {
+      const impulse = await decodeImpulse(file, SAMPLE_RATE);
+      setImpulses(prev => [...prev, impulse]);
+      handleSceneChange(sceneId, { reverb: impulse.id });
+    } catch (err) {
+      setImpulseError('Could not decode that impulse response.');
+    }
+  };
+
+  // Recasting only changes the voice in those speakers' task signatures; everyone else stays cached
+  const handleVoiceChange = (name: string, voiceId: string) => {
+    const profile = characterProfiles.find(p => p.name === name);
+    if (!profile) return;
+    setCharacterProfiles(prev => prev.map(p => p.name === name ? { ...p, voiceId } : p));
+    const entry = findBibleEntry(characterBible, name);
+    updateBible(upsertBibleEntry(characterBible, entry
+      ? { ...entry, voiceId }
+      : { name, gender: profile.gender, voiceId, aliases: [], notes: profile.notes ?? '' }));
+  };
+
+  // Placement only touches the mix, so a re-render reuses every cached speech task
+  const handlePlacementChange = (name: string, placement: Pick<CharacterProfile, 'pan' | 'distance'>) => {
+    setCharacterProfiles(prev => prev.map(p => p.name === name ? { ...p, ...placement } : p));
+  };
+
+  const playPreview = async (text: string, voiceId: string, context: string) => {
+    const audio = await synthesizeSpeech(speechProvider, text, voiceId, context);
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    const src = ctx.createBufferSource();
+    src.buffer = int16ToAudioBuffer(ctx, audio);
+    src.connect(ctx.destination);
+    src.start();
+  };
+
+  const handleAudition = async (name: string) => {
+    if (!parsedData) return;
+    const profile = characterProfiles.find(p => p.name === name);
+    if (!profile) return;
+    const isNarrator = name === 'Narrator';
+    const line = parsedData.segments.find(s => isNarrator ? s.isNarrator : s.speaker === name && s.text.trim());
+    const sample = line
+      ? (line.text.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? line.text).slice(0, 160)
+      : `Hello, my name is ${name}.`;
+    setAuditioning(name);
+    setPreviewError(null);
+    try {
+      const context = speechContext(name, isNarrator, line?.emotion ?? 'Neutral', {
+        notes: profile.notes,
+        pronunciation: pronunciationInstruction(sample, lexicon)
+      });
+      await playPreview(applyLexicon(sample, lexicon), profile.voiceId, context);
+    } catch (err) {
+      setPreviewError(`Could not audition ${name}.`);
+    } finally {
+      setAuditioning(null);
     }
   };
 
-  const handleGenerateAudio = async () => {
+  // Reads the word alone in the narrator's voice, with only this entry applied
+  const handleTestPronunciation = async (entry: LexiconEntry) => {
+    setTestingLexiconId(entry.id);
+    setPreviewError(null);
+    try {
+      const voiceId = characterProfiles.find(p => p.name === 'Narrator')?.voiceId ?? narratorVoice();
+      const word = entry.word.trim();
+      const context = speechContext('Narrator', true, 'Matter-of-fact', { pronunciation: pronunciationInstruction(word, [entry]) });
+      await playPreview(applyLexicon(word, [entry]), voiceId, context);
+    } catch (err) {
+      setPreviewError(`Could not read "${entry.word.trim()}".`);
+    } finally {
+      setTestingLexiconId(null);
+    }
+  };
+
+  // Failed tasks don't abort the run: they are stood in for with silence or a placeholder and listed
+  // for retry. Known failures are not re-attempted until the user asks, so re-mixing stays quick.
+  const runSynthesis = async (knownFailures: SynthesisFailure[]) => {
     if (!parsedData) return;
+    resetPlayback();
+    setEditingSegmentId(null);
+    const script = applyMarkupAt(parsedData.segments, parsedData.segments.findIndex(s => s.id === editingSegmentId));
     setStatus('generating_speech');
     setAudioTracks(null);
-    setProgress(0);
-    pauseTimeRef.current = 0;
+    const uncharted = characterProfiles.filter(p => p.name !== 'Narrator' && !findBibleEntry(characterBible, p.name));
+    if (uncharted.length > 0) {
+      updateBible(uncharted.reduce((bible, p) => upsertBibleEntry(bible, { name: p.name, gender: p.gender, voiceId: p.voiceId, aliases: [], notes: '' }), characterBible));
+    }
     try {
-      const updatedSegments = [...parsedData.segments];
+      const updatedSegments: ParsedSegment[] = script.map(seg => ({ ...seg }));
       const audioBufferArray: (Int16Array | null)[] = new Array(updatedSegments.length).fill(null);
       const uniqueSFX = [...new Set(updatedSegments.filter(s => s.sfx).map(s => s.sfx!))];
-      const sfxJob = Promise.all(uniqueSFX.map(sfxType => sfxQueue.add(() => generateSFX(sfxType))));
-      const tasks = createSpeechTasks(updatedSegments);
+      const sfxJob = Promise.all(uniqueSFX.map(sfxType => sfxQueue.add(() => generateSFX(sfxType)).catch(() => {
+        // The mix renders silence where a cue failed
+      })));
+      const tasks = createSpeechTasks(updatedSegments, lexicon);
+      const failures: SynthesisFailure[] = [];
       const ttsJob = Promise.all(tasks.map(task => ttsQueue.add(async () => {
           if (!task.textToSpeak.trim()) return;
           const profile = characterProfiles.find(p => p.name === task.speaker);
-          const voiceId = profile?.voiceId || 'Puck'; 
-          const context = task.isNarrator 
-            ? NARRATOR_CONTEXT
-            : `Character: ${task.speaker}. Deliver text with emotion: ${updatedSegments[task.startIndex].emotion}.`;
-          const rawAudio = await generateSpeech(task.textToSpeak, voiceId, context);
-          const totalDuration = rawAudio.length / 24000;
-          const totalChars = task.indices.reduce((acc, idx) => acc + updatedSegments[idx].text.length, 0);
+          const voiceId = profile?.voiceId || speechProvider.defaultVoiceId; 
+          const context = speechTaskContext(task, updatedSegments, profile?.notes, lexicon);
+          // Only tasks whose text, voice or direction changed since the last render go back to the engine
+          const signature = speechTaskSignature(speechProvider.id, voiceId, context, task);
+          let rawAudio = getRenderedSpeech(signature);
+          const known = knownFailures.find(f => f.signature === signature);
+          if (!rawAudio && known) {
+            failures.push(known);
+            rawAudio = createFillerSpeech(task.textToSpeak, known.fill);
+          } else if (!rawAudio) {
+            try {
+              rawAudio = await synthesizeSpeech(speechProvider, task.textToSpeak, voiceId, context);
+              storeRenderedSpeech(signature, rawAudio);
+            } catch (err) {
+              failures.push({
+                signature,
+                segmentIds: task.indices.map(idx => updatedSegments[idx].id),
+                speaker: task.speaker,
+                text: task.textToSpeak,
+                error: err instanceof Error ? err.message : String(err),
+                fill: 'silence'
+              });
+              rawAudio = createFillerSpeech(task.textToSpeak, 'silence');
+            }
+          }
+          const durations = alignSegments(rawAudio, task.indices.map(idx => updatedSegments[idx].text));
           task.indices.forEach((idx, i) => {
              const seg = updatedSegments[idx];
              seg.assignedVoiceId = voiceId;
-             seg.speechDuration = totalDuration * (seg.text.length / totalChars);
+             seg.speechDuration = durations[i];
              if (i === 0) audioBufferArray[idx] = rawAudio;
           });
       })));
       await Promise.all([sfxJob, ttsJob]);
       setStatus('mixing');
-      const tracks = await generateTrackBuffers(audioBufferArray, updatedSegments, parsedData.scene);
+      const tracks = await generateTrackBuffers(audioBufferArray, updatedSegments, parsedData.scenes, characterProfiles, stereoMix, impulses);
+      setParsedData({ ...parsedData, segments: updatedSegments });
+      const order = new Map(updatedSegments.map((seg, i) => [seg.id, i]));
+      setSynthesisFailures(failures.sort((a, b) => order.get(a.segmentIds[0])! - order.get(b.segmentIds[0])!));
       setAudioTracks(tracks);
       setStatus('playing'); 
     } catch (err) {
@@ -243,6 +529,16 @@ export default function App() {
     }
   };
 
+  const handleGenerateAudio = () => runSynthesis(synthesisFailures);
+
+  const handleRetryFailure = (signature: string) =>
+    runSynthesis(synthesisFailures.filter(f => f.signature !== signature));
+
+  const handleRetryAllFailures = () => runSynthesis([]);
+
+  const handleFailureFill = (signature: string, fill: FillerKind) =>
+    runSynthesis(synthesisFailures.map(f => f.signature === signature ? { ...f, fill } : f));
+
   const stopAllSources = () => {
     ['dialogue', 'score', 'ambience', 'sfx'].forEach(key => {
       const k = key as keyof typeof sourcesRef.current;
@@ -254,53 +550,310 @@ export default function App() {
     });
   };
 
-  const togglePlayback = async () => {
+  const mixLevels = (): MixLevels => ({ dialogue: volDialogue, score: volScore, ambience: volAmbience, sfx: volSFX });
+
+  const applyMixLevels = (levels: MixLevels) => {
+    setVolDialogue(levels.dialogue);
+    setVolScore(levels.score);
+    setVolAmbience(levels.ambience);
+    setVolSFX(levels.sfx);
+  };
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      setProjectError('Could not list saved projects.');
+    }
+  };
+
+  useEffect(() => { refreshProjects(); }, []);
+
+  const resetPlayback = () => {
+    stopAllSources();
+    setIsPlaying(false);
+    setProgress(0);
+    setPlayhead(null);
+    pauseTimeRef.current = 0;
+  };
+
+  const handleSaveProject = async () => {
+    setIsSavingProject(true);
+    setProjectError(null);
+    try {
+      const id = currentProjectId ?? createProjectId();
+      await saveProject({
+        id,
+        name: projectName.trim(),
+        createdAt: projectCreatedAt,
+        updatedAt: Date.now(),
+        text,
+        scriptFormat,
+        analyzer: analyzerId,
+        analysis: parsedData,
+        characterProfiles,
+        lexicon,
+        mixLevels: mixLevels(),
+        ducking,
+        speechProvider: speechProviderId,
+        stereo: stereoMix,
+        impulses,
+        hasAudio: !!audioTracks
+      }, audioTracks);
+      setCurrentProjectId(id);
+      await refreshProjects();
+    } catch (err) {
+      setProjectError('Could not save the project.');
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    setProjectError(null);
+    try {
+      const { project, tracks } = await loadProject(id);
+      resetPlayback();
+      setCurrentProjectId(project.id);
+      setProjectName(project.name);
+      setProjectCreatedAt(project.createdAt);
+      setText(project.text);
+      setScriptFormat(project.scriptFormat);
+      setAnalyzerId(project.analyzer ?? 'gemini');
+      setAnalysisNotice(null);
+      setParsedData(project.analysis);
+      setCharacterProfiles(project.characterProfiles);
+      setLexicon(project.lexicon ?? []);
+      setSynthesisFailures([]);
+      applyMixLevels(project.mixLevels);
+      setDucking(project.ducking ?? DEFAULT_DUCKING);
+      setSpeechProviderId(project.speechProvider ?? 'gemini');
+      setStereoMix(project.stereo ?? false);
+      setImpulses(project.impulses ?? []);
+      setAudioTracks(tracks);
+      setStatus(tracks ? 'playing' : project.analysis ? 'reviewing' : 'idle');
+    } catch (err) {
+      setProjectError('Could not open that project.');
+    }
+  };
+
+  const handleNewProject = () => {
+    resetPlayback();
+    setCurrentProjectId(null);
+    setProjectName('Untitled Project');
+    setProjectCreatedAt(Date.now());
+    setText('');
+    setScriptFormat('prose');
+    setAnalysisNotice(null);
+    setParsedData(null);
+    setCharacterProfiles([]);
+    setLexicon([]);
+    setSynthesisFailures([]);
+    setStereoMix(true);
+    setImpulses([]);
+    setDucking(DEFAULT_DUCKING);
+    setAudioTracks(null);
+    setStatus('idle');
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    setProjectError(null);
+    try {
+      await duplicateProject(id);
+      await refreshProjects();
+    } catch (err) {
+      setProjectError('Could not duplicate that project.');
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (!window.confirm(`Delete "${target?.name ?? 'this project'}"? This cannot be undone.`)) return;
+    setProjectError(null);
+    try {
+      await deleteProject(id);
+      if (id === currentProjectId) setCurrentProjectId(null);
+      await refreshProjects();
+    } catch (err) {
+      setProjectError('Could not delete that project.');
+    }
+  };
+
+  // Checking, exporting and adding a chapter share one render until the mix or target changes
+  const masterCurrentMix = async (tracks: AudioTracks) => {
+    if (mastered) return mastered;
+    const result = masterMix(await renderMixdown(tracks, mixLevels(), ducking), masteringTarget);
+    setMastered(result);
+    return result;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!audioTracks || !parsedData) return;
+    setExportingFormat(format);
+    setExportError(null);
+    try {
+      // A master that fails its target spec only downloads once the user has seen why and said yes
+      const { buffer, report } = await masterCurrentMix(audioTracks);
+      const failures = report.checks.filter(c => !c.pass).map(c => `${c.label}: ${c.value.toFixed(1)} (spec ${c.requirement})`);
+      if (!report.pass && !window.confirm(`This master fails the ${MASTERING_TARGETS[report.target].label} spec:\n${failures.join('\n')}\n\nExport it anyway?`)) return;
+      exportMasterMix(buffer, format, primaryScene(parsedData).location);
+    } catch (err) {
+      setExportError(`Could not export the ${format.toUpperCase()} master.`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleCheckMaster = async () => {
+    if (!audioTracks) return;
+    setIsCheckingMaster(true);
+    setExportError(null);
+    try {
+      await masterCurrentMix(audioTracks);
+    } catch (err) {
+      setExportError('Could not check the mix.');
+    } finally {
+      setIsCheckingMaster(false);
+    }
+  };
+
+  const handleExportStems = async () => {
+    if (!audioTracks || !parsedData) return;
+    setExportingFormat('stems');
+    setExportError(null);
+    try {
+      await exportStems(audioTracks, mixLevels(), parsedData.scenes, primaryScene(parsedData).location, ducking);
+    } catch (err) {
+      setExportError('Could not export the stems.');
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const handleAddChapter = async () => {
+    if (!audioTracks || !parsedData) return;
+    setIsAddingChapter(true);
+    setBookError(null);
+    try {
+      // Chapters are mastered as they're added, so every file in the book meets the same spec
+      const { buffer: mix } = await masterCurrentMix(audioTracks);
+      setBook(prev => ({
+        ...prev,
+        chapters: [...prev.chapters, {
+          id: `chap_${Date.now()}`,
+          title: `Chapter ${prev.chapters.length + 1}`,
+          mix,
+          duration: mix.duration,
+          scene: primaryScene(parsedData)
+        }]
+      }));
+    } catch (err) {
+      setBookError('Could not render this production as a chapter.');
+    } finally {
+      setIsAddingChapter(false);
+    }
+  };
+
+  const handleExportBook = async (format: ExportFormat) => {
+    setBookExportFormat(format);
+    setBookError(null);
+    try {
+      await exportBook(book, format);
+    } catch (err) {
+      setBookError('Could not export the audiobook.');
+    } finally {
+      setBookExportFormat(null);
+    }
+  };
+
+  const currentPosition = () => {
+    const ctx = audioContextRef.current;
+    if (isPlaying && ctx) return (ctx.currentTime - startTimeRef.current) * playbackSpeed;
+    return pauseTimeRef.current;
+  };
+
+  const startPlayback = async (position: number) => {
+    if (!audioTracks) return;
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') await ctx.resume();
     audioContextRef.current = ctx;
+    stopAllSources();
+
+    const graph = createMixGraph(ctx, audioTracks, mixLevels(), playbackSpeed, ducking);
+    graphRef.current = graph;
+    gainsRef.current = graph.gains;
+    
+    const now = ctx.currentTime;
+    const offset = Math.max(0, position % audioTracks.duration);
+    
+    // Calibrate start time for resume/initial play
+    startTimeRef.current = now - (offset / playbackSpeed);
+    
+    // Score and ambience loops take offset modulo their own length, so loop phase matches the timeline
+    startMixGraph(graph, now, offset);
+    
+    sourcesRef.current = graph.sources;
+    setIsPlaying(true);
+  };
 
+  const togglePlayback = async () => {
     if (isPlaying) {
-      const now = ctx.currentTime;
-      const elapsed = (now - startTimeRef.current) * playbackSpeed;
+      const elapsed = currentPosition();
       stopAllSources();
       pauseTimeRef.current = elapsed; 
+      setPlayhead(elapsed);
       setIsPlaying(false);
     } else {
-      if (!audioTracks) return;
-      
-      const masterGain = ctx.createGain();
-      const compressor = ctx.createDynamicsCompressor();
-      masterGain.connect(compressor).connect(ctx.destination);
-      
-      const gD = ctx.createGain(); gD.gain.value = volDialogue; gD.connect(masterGain);
-      const gS = ctx.createGain(); gS.gain.value = volScore; gS.connect(masterGain);
-      const gA = ctx.createGain(); gA.gain.value = volAmbience; gA.connect(masterGain);
-      const gSFX = ctx.createGain(); gSFX.gain.value = volSFX; gSFX.connect(masterGain);
-      gainsRef.current = { dialogue: gD, score: gS, ambience: gA, sfx: gSFX };
-      
-      const sD = ctx.createBufferSource(); sD.buffer = audioTracks.dialogue; sD.connect(gD);
-      const sS = ctx.createBufferSource(); sS.buffer = audioTracks.score; sS.connect(gS); sS.loop = true;
-      const sA = ctx.createBufferSource(); sA.buffer = audioTracks.ambience; sA.connect(gA); sA.loop = true;
-      const sSFX = ctx.createBufferSource(); sSFX.buffer = audioTracks.sfx; sSFX.connect(gSFX);
-      
-      [sD, sS, sA, sSFX].forEach(s => s.playbackRate.value = playbackSpeed);
-      
-      const now = ctx.currentTime;
-      const offset = Math.max(0, pauseTimeRef.current % audioTracks.duration);
-      
-      // Calibrate start time for resume/initial play
-      startTimeRef.current = now - (offset / playbackSpeed);
-      
-      sD.start(now, offset);
-      sS.start(now, offset % (sS.buffer?.duration || 1));
-      sA.start(now, offset % (sA.buffer?.duration || 1));
-      sSFX.start(now, offset);
-      
-      sourcesRef.current = { dialogue: sD, score: sS, ambience: sA, sfx: sSFX };
-      setIsPlaying(true);
+      await startPlayback(pauseTimeRef.current);
     }
   };
 
+  const seekTo = async (position: number, autoplay: boolean = false) => {
+    if (!audioTracks) return;
+    const clamped = Math.min(Math.max(0, position), audioTracks.duration - 0.05);
+    pauseTimeRef.current = clamped;
+    setPlayhead(clamped);
+    setProgress((clamped / audioTracks.duration) * 100);
+    if (isPlaying || autoplay) await startPlayback(clamped);
+  };
+
+  const skipSegment = (direction: -1 | 1) => {
+    if (!audioTracks || audioTracks.timings.length === 0) return;
+    const position = currentPosition();
+    const { timings } = audioTracks;
+    if (direction === 1) {
+      const next = timings.find(t => t.start > position + 0.05);
+      if (next) seekTo(next.start);
+      return;
+    }
+    // Like a CD player: well into a line goes back to its start, near its start goes to the previous line
+    const currentIndex = timings.reduce((acc, t, i) => t.start <= position ? i : acc, 0);
+    const target = position - timings[currentIndex].start > 1 ? currentIndex : Math.max(0, currentIndex - 1);
+    seekTo(timings[target].start);
+  };
+
+  const scrubFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+  };
+
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setScrubProgress(scrubFraction(e) * 100);
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubProgress === null) return;
+    setScrubProgress(scrubFraction(e) * 100);
+  };
+
+  const handleScrubEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (scrubProgress === null || !audioTracks) return;
+    const fraction = scrubFraction(e);
+    setScrubProgress(null);
+    seekTo(fraction * audioTracks.duration);
+  };
+
   useEffect(() => {
     if (isPlaying && audioContextRef.current && audioTracks) {
       const now = audioContextRef.current.currentTime;
@@ -310,10 +863,22 @@ export default function App() {
       (Object.values(sourcesRef.current) as (AudioBufferSourceNode | null)[]).forEach(source => {
         if (source) source.playbackRate.value = playbackSpeed;
       });
+      // Duck automation is in context time, so a new rate means a new schedule
+      if (graphRef.current) {
+        graphRef.current.playbackRate = playbackSpeed;
+        scheduleDucking(graphRef.current, now, elapsed);
+      }
     }
     prevSpeedRef.current = playbackSpeed;
   }, [playbackSpeed, isPlaying, audioTracks]);
 
+  useEffect(() => {
+    if (!isPlaying || !audioContextRef.current || !graphRef.current) return;
+    const now = audioContextRef.current.currentTime;
+    graphRef.current.ducking = ducking;
+    scheduleDucking(graphRef.current, now, (now - startTimeRef.current) * playbackSpeed);
+  }, [ducking]);
+
   useEffect(() => {
     let animationFrame: number;
     const updateProgress = () => {
@@ -326,10 +891,12 @@ export default function App() {
             setIsPlaying(false);
             pauseTimeRef.current = 0;
             setProgress(100); 
+            setPlayhead(null);
             return;
         }
         
         setProgress(Math.min(100, (elapsed / audioTracks.duration) * 100));
+        setPlayhead(elapsed);
         animationFrame = requestAnimationFrame(updateProgress);
       }
     };
@@ -344,6 +911,33 @@ export default function App() {
     if (gainsRef.current.sfx) gainsRef.current.sfx.gain.value = volSFX;
   }, [volDialogue, volScore, volAmbience, volSFX]);
 
+  // A master describes one exact mix and target; any change to either makes it stale
+  useEffect(() => {
+    setMastered(null);
+  }, [audioTracks, volDialogue, volScore, volAmbience, volSFX, ducking, masteringTarget]);
+
+  // Between segments (inter-line gap) the last started line stays highlighted
+  const activeTiming: SegmentTiming | null = (() => {
+    if (!audioTracks || playhead === null) return null;
+    let current: SegmentTiming | null = null;
+    for (const t of audioTracks.timings) {
+      if (t.start > playhead) break;
+      current = t;
+    }
+    return current;
+  })();
+  const activeSegmentId = activeTiming?.id ?? null;
+  const timingById = new Map<string, SegmentTiming>((audioTracks?.timings ?? []).map(t => [t.id, t]));
+  const segmentScenes = parsedData ? segmentSceneIds(parsedData.segments, parsedData.scenes) : [];
+
+  useEffect(() => {
+    if (!activeSegmentId || !isPlaying) return;
+    const container = scriptScrollRef.current;
+    const el = segmentRefs.current.get(activeSegmentId);
+    if (!container || !el) return;
+    container.scrollTo({ top: el.offsetTop - (container.clientHeight - el.clientHeight) / 2, behavior: 'smooth' });
+  }, [activeSegmentId, isPlaying]);
+
   const getSpeakerColor = (speaker: string, isNarrator: boolean) => {
     if (isNarrator) return 'bg-slate-50 border-slate-200';
     const colors = ['bg-indigo-50 border-indigo-100', 'bg-rose-50 border-rose-100', 'bg-emerald-50 border-emerald-100', 'bg-amber-50 border-amber-100'];
@@ -371,6 +965,47 @@ export default function App() {
       </header>
 
       <main className="w-full max-w-4xl space-y-8">
+        <ProjectsPanel
+          projects={projects}
+          currentProjectId={currentProjectId}
+          projectName={projectName}
+          onProjectNameChange={setProjectName}
+          isSaving={isSavingProject}
+          onSave={handleSaveProject}
+          onNew={handleNewProject}
+          onOpen={handleOpenProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          error={projectError}
+        />
+
+        <CharacterBiblePanel
+          bible={characterBible}
+          voices={speechProvider.voices}
+          error={bibleError}
+          onChange={updateBible}
+          onImport={handleImportBible}
+          onExport={() => exportBible(characterBible, book.metadata.title)}
+        />
+
+        <LexiconPanel
+          lexicon={lexicon}
+          testingId={testingLexiconId}
+          onChange={setLexicon}
+          onTest={handleTestPronunciation}
+          error={previewError}
+        />
+
+        {importedManuscript && (
+          <section className="animate-fade-in-up">
+            <ChapterPicker
+              manuscript={importedManuscript}
+              onConfirm={handleChapterSelection}
+              onCancel={() => setImportedManuscript(null)}
+            />
+          </section>
+        )}
+
         <section className={`transition-all duration-500 ${status !== 'idle' && status !== 'error' ? 'opacity-40 pointer-events-none grayscale-[0.5]' : ''}`}>
            <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm ring-1 ring-slate-200/50">
              <h2 className="text-sm font-bold mb-4 flex items-center gap-2 text-slate-400 uppercase tracking-widest">
@@ -382,18 +1017,50 @@ export default function App() {
                onChange={(e) => setText(e.target.value)}
                placeholder="Enter your story..."
              />
+             {status === 'analyzing' && analysisProgress && analysisProgress.total > 1 && (
+               <div className="mt-4 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                 <div
+                   className="h-full bg-indigo-500 transition-all duration-300"
+                   style={{ width: `${(analysisProgress.completed / analysisProgress.total) * 100}%` }}
+                 />
+               </div>
+             )}
              <div className="mt-5 flex items-center justify-between">
-                <label className="text-xs font-bold text-slate-500 cursor-pointer bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 transition-all shadow-sm active:scale-95">
-                  Upload Manuscript
-                  <input type="file" accept=".txt" onChange={handleFileUpload} className="hidden" />
-                </label>
+                <div className="flex items-center gap-3">
+                  <label className="text-xs font-bold text-slate-500 cursor-pointer bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 transition-all shadow-sm active:scale-95">
+                    Upload Manuscript
+                    <input type="file" accept=".txt,.epub,.fountain,.spmd" onChange={handleFileUpload} className="hidden" />
+                  </label>
+                  <select
+                    value={scriptFormat}
+                    onChange={(e) => setScriptFormat(e.target.value as ScriptFormat)}
+                    className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-3 py-2.5 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="prose">Prose</option>
+                    <option value="fountain">Fountain script</option>
+                  </select>
+                  {scriptFormat === 'prose' && (
+                    <select
+                      value={analyzerId}
+                      onChange={(e) => setAnalyzerId(e.target.value as AnalyzerId)}
+                      className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-3 py-2.5 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <option value="gemini">AI attribution</option>
+                      <option value="local">Offline rules</option>
+                    </select>
+                  )}
+                  {importError && <span className="text-xs font-bold text-rose-500">{importError}</span>}
+                  {analysisNotice && <span className="text-xs font-bold text-amber-600">{analysisNotice}</span>}
+                </div>
                 <button 
                   onClick={handleAnalyze}
                   disabled={status !== 'idle' && status !== 'error'}
                   className="bg-indigo-600 hover:bg-indigo-700 text-white px-8 py-2.5 rounded-xl font-bold shadow-lg shadow-indigo-100 flex items-center gap-2 disabled:opacity-50 transition-all active:scale-95"
                 >
                   {status === 'analyzing' ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <SparklesIcon className="w-5 h-5" />}
-                  Analyze Scene
+                  {status === 'analyzing' && analysisProgress && analysisProgress.total > 1
+                    ? `Analyzing part ${analysisProgress.chunk} of ${analysisProgress.total}`
+                    : 'Analyze Scene'}
                 </button>
              </div>
            </div>
@@ -401,47 +1068,107 @@ export default function App() {
 
         {parsedData && (
           <section className="space-y-6 animate-fade-in-up">
-            <div className="bg-white border border-slate-200 rounded-2xl p-5 shadow-sm grid grid-cols-2 lg:grid-cols-5 gap-4">
-              {[
-                { label: 'Mood', icon: FaceSmileIcon, val: parsedData.scene.mood, color: 'text-indigo-600', iconColor: 'text-indigo-400' },
-                { label: 'Ambience', icon: SpeakerWaveIcon, val: parsedData.scene.roomToneType, color: 'text-emerald-600', iconColor: 'text-emerald-400' },
-                { label: 'Score', icon: MusicalNoteIcon, val: parsedData.scene.scoreStyle, color: 'text-amber-600', iconColor: 'text-amber-400' },
-                { label: 'Location', icon: MapPinIcon, val: parsedData.scene.location, color: 'text-rose-500', iconColor: 'text-rose-400' },
-                { label: 'Time', icon: ClockIcon, val: parsedData.scene.timeOfDay || 'Unknown', color: 'text-slate-600', iconColor: 'text-slate-400' }
-              ].map((item, idx) => (
-                <div key={idx} className="bg-slate-50 p-4 rounded-2xl border border-slate-100 flex flex-col justify-between h-32 transition-transform hover:-translate-y-1 shadow-sm">
-                  <span className="text-[10px] text-slate-400 uppercase font-black flex items-center gap-2 shrink-0">
-                    <item.icon className={`w-4 h-4 ${item.iconColor}`} /> {item.label}
-                  </span>
-                  <span className={`${item.color} font-black capitalize leading-tight text-sm overflow-hidden text-ellipsis line-clamp-2`}>
-                    {item.val.replace('_', ' ')}
-                  </span>
-                </div>
-              ))}
-            </div>
+            <SceneStrip
+              scenes={parsedData.scenes}
+              segments={parsedData.segments}
+              impulses={impulses}
+              impulseError={impulseError}
+              editable={canEditScript}
+              onChange={handleSceneChange}
+              onMergeIntoPrevious={handleMergeScene}
+              onUploadImpulse={handleUploadImpulse}
+            />
+
+            {characterProfiles.length > 0 && (
+              <CastingPanel
+                profiles={characterProfiles}
+                segments={parsedData.segments}
+                voices={speechProvider.voices}
+                auditioning={auditioning}
+                onVoiceChange={handleVoiceChange}
+                onPlacementChange={handlePlacementChange}
+                onAudition={handleAudition}
+                error={previewError}
+              />
+            )}
+
+            <SynthesisFailures
+              failures={synthesisFailures}
+              busy={!canEditScript}
+              onRetry={handleRetryFailure}
+              onRetryAll={handleRetryAllFailures}
+              onFill={handleFailureFill}
+            />
 
             <div className="bg-white border border-slate-200 rounded-2xl overflow-hidden shadow-md ring-1 ring-slate-200/50">
                <div className="p-4 bg-white border-b border-slate-100 flex justify-between items-center">
                  <h3 className="font-bold text-slate-400 text-xs uppercase tracking-widest flex items-center gap-2">
                     Director's Script
                  </h3>
-                 {status === 'reviewing' && (
-                   <button 
-                     onClick={handleGenerateAudio}
-                     className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs px-5 py-2.5 rounded-xl flex items-center gap-2 font-bold shadow-lg shadow-emerald-50 active:scale-95 transition-all"
-                   >
-                     <BoltIcon className="w-4 h-4" /> Synthesize Audio
-                   </button>
+                 {canEditScript && (
+                   <div className="flex items-center gap-3">
+                     <select
+                       value={speechProviderId}
+                       onChange={(e) => setSpeechProviderId(e.target.value as SpeechProviderId)}
+                       title="Speech engine"
+                       className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-3 py-2.5 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                     >
+                       {Object.values(SPEECH_PROVIDERS).map(p => (
+                         <option key={p.id} value={p.id}>{p.label}</option>
+                       ))}
+                     </select>
+                     <select
+                       value={stereoMix ? 'stereo' : 'mono'}
+                       onChange={(e) => setStereoMix(e.target.value === 'stereo')}
+                       title="Output channels"
+                       className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-3 py-2.5 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                     >
+                       <option value="stereo">Stereo</option>
+                       <option value="mono">Mono</option>
+                     </select>
+                     <button 
+                       onClick={handleGenerateAudio}
+                       className="bg-emerald-600 hover:bg-emerald-700 text-white text-xs px-5 py-2.5 rounded-xl flex items-center gap-2 font-bold shadow-lg shadow-emerald-50 active:scale-95 transition-all"
+                     >
+                       <BoltIcon className="w-4 h-4" /> Synthesize Audio
+                     </button>
+                   </div>
                  )}
                </div>
                
-               <div className="max-h-[440px] overflow-y-auto p-5 space-y-4 bg-slate-50/40 custom-scrollbar">
-                 {parsedData.segments.map((seg) => (
-                   <div key={seg.id} className={`p-5 rounded-2xl border-2 transition-all shadow-sm ${getSpeakerColor(seg.speaker, seg.isNarrator)}`}>
+               <SpeakerGroups
+                 groups={parsedData.speakerGroups ?? []}
+                 editable={canEditScript}
+                 onConfirm={handleConfirmSpeakerGroup}
+                 onSplit={handleSplitSpeaker}
+               />
+
+               <div ref={scriptScrollRef} className="relative max-h-[440px] overflow-y-auto p-5 space-y-4 bg-slate-50/40 custom-scrollbar">
+                 {parsedData.segments.map((seg, index) => (
+                   <div
+                     key={seg.id}
+                     ref={(el) => { if (el) segmentRefs.current.set(seg.id, el); else segmentRefs.current.delete(seg.id); }}
+                     className={`p-5 rounded-2xl border-2 transition-all shadow-sm ${getSpeakerColor(seg.speaker, seg.isNarrator)} ${seg.id === activeSegmentId ? 'ring-4 ring-indigo-300/60 scale-[1.01]' : ''}`}
+                   >
+                     {editingSegmentId === seg.id && canEditScript ? (
+                       <SegmentEditor
+                         segment={seg}
+                         speakers={['Narrator', ...characterProfiles.filter(p => p.name !== 'Narrator').map(p => p.name)]}
+                         onChange={(patch) => editSegments(segments => updateSegment(segments, index, patch))}
+                         onSplit={(at) => handleSplitSegment(index, at)}
+                         onDone={commitEditing}
+                       />
+                     ) : (
+                     <>
                      <div className="flex items-center gap-3 mb-3">
                         <span className="text-[10px] font-black uppercase tracking-wider bg-white px-2.5 py-1 rounded-lg border border-slate-200 shadow-sm text-slate-600">
                           {seg.speaker}
                         </span>
+                        {seg.originalSpeaker && seg.originalSpeaker !== seg.speaker && (
+                          <span className="text-[10px] text-slate-400 font-bold" title="Speaker as attributed">
+                            as “{seg.originalSpeaker}”
+                          </span>
+                        )}
                         {!seg.isNarrator && (
                           <span className="text-[10px] text-slate-500 font-bold px-2 py-0.5 bg-slate-100/50 rounded-md ring-1 ring-slate-200/50 italic">
                              {seg.emotion}
@@ -452,29 +1179,114 @@ export default function App() {
                             <BoltIcon className="w-3 h-3" /> {seg.sfx}
                           </span>
                         )}
+                        {seg.direction && (
+                          <span className="text-[10px] text-violet-600 font-bold px-2 py-0.5 bg-violet-50 rounded-md ring-1 ring-violet-200/50">
+                            {seg.direction}
+                          </span>
+                        )}
+                        {index > 0 && segmentScenes[index] !== segmentScenes[index - 1] && (
+                          <span className="text-[10px] text-rose-500 font-black flex items-center gap-1 bg-rose-50 px-2 py-0.5 rounded-md ring-1 ring-rose-200/50">
+                            <MapPinIcon className="w-3 h-3" /> {parsedData.scenes.find(sc => sc.id === segmentScenes[index])?.location}
+                          </span>
+                        )}
+                        {!!(seg.pauseBefore || seg.pauseAfter) && (
+                          <span className="text-[10px] text-slate-400 font-mono flex items-center gap-1">
+                            <ClockIcon className="w-3 h-3" />
+                            {seg.pauseBefore ? `${seg.pauseBefore}s ←` : ''}{seg.pauseAfter ? `→ ${seg.pauseAfter}s` : ''}
+                          </span>
+                        )}
+                        <div className="ml-auto flex items-center gap-2">
+                          {canEditScript && (
+                            <div className="flex items-center gap-1.5 text-slate-400">
+                              <button onClick={() => { commitEditing(); setEditingSegmentId(seg.id); }} title="Edit segment" className="hover:text-indigo-600">
+                                <PencilSquareIcon className="w-4 h-4" />
+                              </button>
+                              <button onClick={() => handleInsertSegment(index)} title="Insert segment below" className="hover:text-indigo-600">
+                                <PlusIcon className="w-4 h-4" />
+                              </button>
+                              {index > 0 && segmentScenes[index] === segmentScenes[index - 1] && (
+                                <button onClick={() => handleStartScene(index)} title="Start a new scene here" className="hover:text-rose-500">
+                                  <MapPinIcon className="w-4 h-4" />
+                                </button>
+                              )}
+                              {index < parsedData.segments.length - 1 && (
+                                <button onClick={() => editSegments(segments => mergeWithNext(segments, index))} title="Merge with next" className="hover:text-indigo-600">
+                                  <LinkIcon className="w-4 h-4" />
+                                </button>
+                              )}
+                              <button onClick={() => handleDeleteSegment(index)} title="Delete segment" className="hover:text-rose-500">
+                                <TrashIcon className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
+                          {timingById.has(seg.id) && (
+                            <button
+                              onClick={() => seekTo(timingById.get(seg.id)!.start, true)}
+                              title="Play from here"
+                              className="text-[10px] font-black uppercase text-indigo-600 flex items-center gap-1 bg-white px-2.5 py-1 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-400 active:scale-95 transition-all"
+                            >
+                              <PlayIcon className="w-3 h-3" /> Play from here
+                            </button>
+                          )}
+                        </div>
                      </div>
                      <p className={`text-[15px] leading-relaxed tracking-tight ${seg.isNarrator ? 'text-slate-500 italic font-serif opacity-90' : 'text-slate-800 font-medium'}`}>
-                       {seg.text}
+                       {activeTiming && seg.id === activeTiming.id && playhead !== null
+                         ? <ReadAlongText text={seg.text} progress={(playhead - activeTiming.start) / (activeTiming.end - activeTiming.start)} />
+                         : seg.text}
                      </p>
+                     </>
+                     )}
                    </div>
                  ))}
                </div>
             </div>
           </section>
         )}
+
+        {(audioTracks || book.chapters.length > 0) && (
+          <section className="animate-fade-in-up">
+            <BookPanel
+              book={book}
+              onChange={setBook}
+              canAddChapter={!!audioTracks}
+              isAddingChapter={isAddingChapter}
+              onAddChapter={handleAddChapter}
+              exportingFormat={bookExportFormat}
+              onExport={handleExportBook}
+              error={bookError}
+            />
+          </section>
+        )}
       </main>
 
       {audioTracks && (
         <div className="fixed bottom-0 left-0 right-0 bg-white/95 backdrop-blur-xl border-t border-slate-200 p-8 shadow-2xl z-50 animate-slide-up ring-1 ring-slate-200/50">
            <div className="max-w-4xl mx-auto space-y-8">
               <div className="flex items-center gap-8">
-                 <button 
-                   onClick={togglePlayback}
-                   className="w-16 h-16 bg-indigo-600 hover:bg-indigo-500 rounded-2xl flex items-center justify-center text-white shadow-xl shadow-indigo-200 transition-all hover:scale-105 active:scale-95 relative group"
-                 >
-                   <div className="absolute inset-0 bg-indigo-400 rounded-2xl animate-ping opacity-0 group-hover:opacity-20 transition-opacity"></div>
-                   {isPlaying ? <PauseIcon className="w-9 h-9" /> : <PlayIcon className="w-9 h-9 ml-1" />}
-                 </button>
+                 <div className="flex items-center gap-2">
+                   <button
+                     onClick={() => skipSegment(-1)}
+                     title="Previous segment"
+                     className="w-10 h-10 bg-slate-50 border border-slate-200 hover:border-indigo-400 rounded-xl flex items-center justify-center text-indigo-600 transition-all active:scale-95"
+                   >
+                     <BackwardIcon className="w-5 h-5" />
+                   </button>
+                   <button 
+                     onClick={togglePlayback}
+                     className="w-16 h-16 bg-indigo-600 hover:bg-indigo-500 rounded-2xl flex items-center justify-center text-white shadow-xl shadow-indigo-200 transition-all hover:scale-105 active:scale-95 relative group"
+                   >
+                     <div className="absolute inset-0 bg-indigo-400 rounded-2xl animate-ping opacity-0 group-hover:opacity-20 transition-opacity"></div>
+                     {isPlaying ? <PauseIcon className="w-9 h-9" /> : <PlayIcon className="w-9 h-9 ml-1" />}
+                   </button>
+                   <button
+                     onClick={() => skipSegment(1)}
+                     title="Next segment"
+                     className="w-10 h-10 bg-slate-50 border border-slate-200 hover:border-indigo-400 rounded-xl flex items-center justify-center text-indigo-600 transition-all active:scale-95"
+                   >
+                     <ForwardIcon className="w-5 h-5" />
+                   </button>
+                 </div>
                  
                  <div className="flex-1 space-y-3">
                     <div className="flex justify-between text-[11px] text-slate-400 font-black uppercase tracking-widest">
@@ -482,13 +1294,18 @@ export default function App() {
                           <ClockIcon className="w-3 h-3" /> Playback Progress
                        </span>
                        <span className="font-mono text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded border border-indigo-100">
-                          {Math.floor(progress)}%
+                          {Math.floor(scrubProgress ?? progress)}%
                        </span>
                     </div>
-                    <div className="h-3 bg-slate-100 rounded-full overflow-hidden border border-slate-200/50 shadow-inner">
+                    <div
+                      onPointerDown={handleScrubStart}
+                      onPointerMove={handleScrubMove}
+                      onPointerUp={handleScrubEnd}
+                      className="h-3 bg-slate-100 rounded-full overflow-hidden border border-slate-200/50 shadow-inner cursor-pointer touch-none"
+                    >
                        <div 
-                         className="h-full bg-gradient-to-r from-indigo-500 via-purple-500 to-indigo-600 transition-all duration-150 ease-linear shadow-sm"
-                         style={{ width: `${progress}%` }}
+                         className={`h-full bg-gradient-to-r from-indigo-500 via-purple-500 to-indigo-600 ease-linear shadow-sm ${scrubProgress === null ? 'transition-all duration-150' : ''}`}
+                         style={{ width: `${scrubProgress ?? progress}%` }}
                        />
                     </div>
                  </div>
@@ -503,6 +1320,41 @@ export default function App() {
                     />
                     <span className="text-xs font-mono font-black text-indigo-700 mt-2 block">{playbackSpeed.toFixed(2)}x</span>
                  </div>
+
+                 <div className="w-28 text-center bg-slate-50 p-3 rounded-2xl border border-slate-200 shadow-sm space-y-2">
+                    <span className="block text-[10px] text-slate-400 font-black uppercase tracking-tighter">Export Master</span>
+                    {(['wav', 'mp3'] as ExportFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        disabled={exportingFormat !== null}
+                        className="w-full text-[10px] font-black uppercase bg-white border border-slate-200 px-2 py-1.5 rounded-lg flex items-center justify-center gap-1.5 text-indigo-700 hover:border-indigo-400 disabled:opacity-50 transition-all active:scale-95"
+                      >
+                        {exportingFormat === format ? <ArrowPathIcon className="w-3 h-3 animate-spin" /> : <ArrowDownTrayIcon className="w-3 h-3" />}
+                        {format}
+                      </button>
+                    ))}
+                    <button
+                      onClick={handleExportStems}
+                      disabled={exportingFormat !== null}
+                      className="w-full text-[10px] font-black uppercase bg-white border border-slate-200 px-2 py-1.5 rounded-lg flex items-center justify-center gap-1.5 text-indigo-700 hover:border-indigo-400 disabled:opacity-50 transition-all active:scale-95"
+                    >
+                      {exportingFormat === 'stems' ? <ArrowPathIcon className="w-3 h-3 animate-spin" /> : <ArchiveBoxArrowDownIcon className="w-3 h-3" />}
+                      Stems
+                    </button>
+                    <span className="block text-[10px] text-slate-400 font-black uppercase tracking-tighter pt-1">Captions</span>
+                    <div className="flex gap-1">
+                      {(['srt', 'vtt', 'json'] as SubtitleFormat[]).map(format => (
+                        <button
+                          key={format}
+                          onClick={() => parsedData && exportSubtitles(audioTracks.timings, format, primaryScene(parsedData).location)}
+                          className="flex-1 text-[9px] font-black uppercase bg-white border border-slate-200 py-1 rounded-md text-indigo-700 hover:border-indigo-400 transition-all active:scale-95"
+                        >
+                          {format}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
               </div>
 
               <div className="grid grid-cols-4 gap-6 pt-6 border-t border-slate-100">
@@ -525,6 +1377,18 @@ export default function App() {
                     </div>
                   ))}
               </div>
+
+              {exportError && <p className="text-xs font-bold text-rose-500">{exportError}</p>}
+
+              <DuckingControls settings={ducking} onChange={setDucking} />
+
+              <MasteringPanel
+                target={masteringTarget}
+                report={mastered?.report ?? null}
+                busy={isCheckingMaster || exportingFormat !== null}
+                onTargetChange={setMasteringTarget}
+                onCheck={handleCheckMaster}
+              />
            </div>
         </div>
       )}
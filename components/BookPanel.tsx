@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo } from 'react';
+import { Book, BookChapter, ExportFormat } from '../types';
+import {
+  BookOpenIcon,
+  PlusIcon,
+  TrashIcon,
+  ChevronUpIcon,
+  ChevronDownIcon,
+  PhotoIcon,
+  ArrowDownTrayIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/solid';
+
+interface BookPanelProps {
+  book: Book;
+  onChange: (book: Book) => void;
+  canAddChapter: boolean;
+  isAddingChapter: boolean;
+  onAddChapter: () => void;
+  exportingFormat: ExportFormat | null;
+  onExport: (format: ExportFormat) => void;
+  error: string | null;
+}
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${String(s).padStart(2, '0')}`;
+};
+
+export default function BookPanel({
+  book, onChange, canAddChapter, isAddingChapter, onAddChapter, exportingFormat, onExport, error
+}: BookPanelProps) {
+  const { metadata, chapters } = book;
+
+  const coverUrl = useMemo(() => {
+    if (!metadata.cover) return null;
+    return URL.createObjectURL(new Blob([metadata.cover.data as BlobPart], { type: metadata.cover.mimeType }));
+  }, [metadata.cover]);
+
+  useEffect(() => () => { if (coverUrl) URL.revokeObjectURL(coverUrl); }, [coverUrl]);
+
+  const totalDuration = chapters.reduce((acc, c) => acc + c.duration, 0);
+
+  const updateMetadata = (patch: Partial<Book['metadata']>) =>
+    onChange({ ...book, metadata: { ...metadata, ...patch } });
+
+  const updateChapters = (next: BookChapter[]) => onChange({ ...book, chapters: next });
+
+  const moveChapter = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= chapters.length) return;
+    const next = [...chapters];
+    [next[index], next[target]] = [next[target], next[index]];
+    updateChapters(next);
+  };
+
+  const handleCoverUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const data = new Uint8Array(await file.arrayBuffer());
+    updateMetadata({ cover: { data, mimeType: file.type || 'image/jpeg' } });
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl overflow-hidden shadow-md ring-1 ring-slate-200/50">
+      <div className="p-4 bg-white border-b border-slate-100 flex justify-between items-center">
+        <h3 className="font-bold text-slate-400 text-xs uppercase tracking-widest flex items-center gap-2">
+          <BookOpenIcon className="w-4 h-4 text-indigo-400" /> Audiobook
+          <span className="font-mono text-indigo-600 normal-case">{chapters.length} ch · {formatDuration(totalDuration)}</span>
+        </h3>
+        {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+        <button
+          onClick={onAddChapter}
+          disabled={!canAddChapter || isAddingChapter}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white text-xs px-5 py-2.5 rounded-xl flex items-center gap-2 font-bold shadow-lg shadow-indigo-100 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          {isAddingChapter ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <PlusIcon className="w-4 h-4" />}
+          Add Current Production
+        </button>
+      </div>
+
+      <div className="p-5 flex gap-5 bg-slate-50/40">
+        <label className="w-28 h-28 shrink-0 rounded-xl border-2 border-dashed border-slate-200 bg-white flex items-center justify-center cursor-pointer overflow-hidden hover:border-indigo-400 transition-all">
+          {coverUrl
+            ? <img src={coverUrl} alt="Cover art" className="w-full h-full object-cover" />
+            : <PhotoIcon className="w-8 h-8 text-slate-300" />}
+          <input type="file" accept="image/png,image/jpeg" onChange={handleCoverUpload} className="hidden" />
+        </label>
+        <div className="flex-1 space-y-3">
+          <input
+            value={metadata.title}
+            onChange={(e) => updateMetadata({ title: e.target.value })}
+            placeholder="Book title"
+            className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm font-serif font-bold text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+          <input
+            value={metadata.author}
+            onChange={(e) => updateMetadata({ author: e.target.value })}
+            placeholder="Author"
+            className="w-full bg-white border border-slate-200 rounded-xl px-4 py-2 text-sm text-slate-600 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+          />
+          <div className="flex gap-2">
+            {(['mp3', 'wav'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => onExport(format)}
+                disabled={chapters.length === 0 || exportingFormat !== null}
+                className="text-[10px] font-black uppercase bg-white border border-slate-200 px-3 py-1.5 rounded-lg flex items-center gap-1.5 text-indigo-700 hover:border-indigo-400 disabled:opacity-50 transition-all active:scale-95"
+              >
+                {exportingFormat === format ? <ArrowPathIcon className="w-3 h-3 animate-spin" /> : <ArrowDownTrayIcon className="w-3 h-3" />}
+                {format === 'mp3' ? 'Chaptered MP3 + Cue' : 'WAV + Cue'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {chapters.length > 0 && (
+        <ol className="p-5 pt-0 space-y-2 bg-slate-50/40">
+          {chapters.map((chapter, i) => (
+            <li key={chapter.id} className="flex items-center gap-3 bg-white border border-slate-200 rounded-xl px-3 py-2 shadow-sm">
+              <span className="text-[10px] font-black text-slate-400 w-6">{String(i + 1).padStart(2, '0')}</span>
+              <input
+                value={chapter.title}
+                onChange={(e) => updateChapters(chapters.map(c => c.id === chapter.id ? { ...c, title: e.target.value } : c))}
+                className="flex-1 bg-transparent text-sm font-medium text-slate-800 focus:outline-none"
+              />
+              <span className="text-[10px] font-mono text-slate-400">{formatDuration(chapter.duration)}</span>
+              <button onClick={() => moveChapter(i, -1)} className="text-slate-400 hover:text-indigo-600"><ChevronUpIcon className="w-4 h-4" /></button>
+              <button onClick={() => moveChapter(i, 1)} className="text-slate-400 hover:text-indigo-600"><ChevronDownIcon className="w-4 h-4" /></button>
+              <button onClick={() => updateChapters(chapters.filter(c => c.id !== chapter.id))} className="text-slate-400 hover:text-rose-500"><TrashIcon className="w-4 h-4" /></button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
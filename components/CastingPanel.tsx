@@ -0,0 +1,98 @@
+import React from 'react';
+import { CharacterProfile, ParsedSegment, VoiceOption } from '../types';
+import { UserGroupIcon, SpeakerWaveIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+
+interface CastingPanelProps {
+  profiles: CharacterProfile[];
+  segments: ParsedSegment[];
+  voices: VoiceOption[];
+  auditioning: string | null;
+  onVoiceChange: (name: string, voiceId: string) => void;
+  onPlacementChange: (name: string, placement: Pick<CharacterProfile, 'pan' | 'distance'>) => void;
+  onAudition: (name: string) => void;
+  error: string | null;
+}
+
+const GENDER_LABELS: Record<CharacterProfile['gender'], string> = { male: 'M', female: 'F', neutral: '—' };
+
+const panLabel = (pan: number) => pan === 0 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+
+export default function CastingPanel({ profiles, segments, voices, auditioning, onVoiceChange, onPlacementChange, onAudition, error }: CastingPanelProps) {
+  const lineCount = (profile: CharacterProfile) =>
+    segments.filter(s => profile.name === 'Narrator' ? s.isNarrator : !s.isNarrator && s.speaker === profile.name).length;
+
+  // Narrator first, then the biggest parts
+  const ordered = [...profiles].sort((a, b) =>
+    a.name === 'Narrator' ? -1 : b.name === 'Narrator' ? 1 : lineCount(b) - lineCount(a));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl overflow-hidden shadow-md ring-1 ring-slate-200/50">
+      <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+        <h3 className="font-bold text-slate-400 text-xs uppercase tracking-widest flex items-center gap-2">
+          <UserGroupIcon className="w-4 h-4 text-indigo-400" /> Casting
+        </h3>
+        {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+      </div>
+      <ul className="divide-y divide-slate-100">
+        {ordered.map(profile => (
+          <li key={profile.name} className="px-5 py-3 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <span className="block text-sm font-bold text-slate-800 truncate">{profile.name}</span>
+              <span className="text-[10px] text-slate-400 font-mono">
+                {lineCount(profile)} {lineCount(profile) === 1 ? 'line' : 'lines'} · {GENDER_LABELS[profile.gender]}
+              </span>
+            </div>
+            {profile.name !== 'Narrator' && (
+              <div className="flex items-center gap-3 text-[10px] font-black uppercase text-slate-400">
+                <label className="flex items-center gap-1.5" title="Stereo position">
+                  Pan
+                  <input
+                    type="range"
+                    min={-1}
+                    max={1}
+                    step={0.05}
+                    value={profile.pan ?? 0}
+                    onChange={(e) => onPlacementChange(profile.name, { pan: parseFloat(e.target.value) })}
+                    onDoubleClick={() => onPlacementChange(profile.name, { pan: 0 })}
+                    className="w-20 accent-indigo-500"
+                  />
+                  <span className="w-7 font-mono text-slate-500">{panLabel(profile.pan ?? 0)}</span>
+                </label>
+                <label className="flex items-center gap-1.5" title="Distance from the listener">
+                  Dist
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={profile.distance ?? 0}
+                    onChange={(e) => onPlacementChange(profile.name, { distance: parseFloat(e.target.value) })}
+                    className="w-16 accent-indigo-500"
+                  />
+                </label>
+              </div>
+            )}
+            <select
+              value={profile.voiceId}
+              onChange={(e) => onVoiceChange(profile.name, e.target.value)}
+              className="text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {!voices.some(v => v.id === profile.voiceId) && <option value={profile.voiceId}>{profile.voiceId}</option>}
+              {voices.map(v => (
+                <option key={v.id} value={v.id}>{v.id} ({v.gender}, {v.style})</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onAudition(profile.name)}
+              disabled={auditioning !== null}
+              title="Audition"
+              className="w-9 h-9 bg-white border border-slate-200 hover:border-indigo-400 rounded-xl flex items-center justify-center text-indigo-600 disabled:opacity-50 transition-all active:scale-95"
+            >
+              {auditioning === profile.name ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { ImportedManuscript } from '../types';
+import { BookOpenIcon, CheckIcon, XMarkIcon } from '@heroicons/react/24/solid';
+
+interface ChapterPickerProps {
+  manuscript: ImportedManuscript;
+  onConfirm: (chapterIds: string[]) => void;
+  onCancel: () => void;
+}
+
+export default function ChapterPicker({ manuscript, onConfirm, onCancel }: ChapterPickerProps) {
+  const { metadata, chapters } = manuscript;
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(chapters.map(c => c.id)));
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedChars = chapters.filter(c => selected.has(c.id)).reduce((acc, c) => acc + c.text.length, 0);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-6 shadow-sm ring-1 ring-slate-200/50 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-bold flex items-center gap-2 text-slate-400 uppercase tracking-widest">
+            <BookOpenIcon className="w-4 h-4 text-indigo-400" /> Choose Chapters
+          </h2>
+          <p className="mt-2 font-serif font-bold text-slate-800">{metadata.title}</p>
+          {metadata.author && <p className="text-xs text-slate-500">{metadata.author}</p>}
+        </div>
+        <div className="flex gap-2 text-[10px] font-black uppercase">
+          <button onClick={() => setSelected(new Set(chapters.map(c => c.id)))} className="text-indigo-600 hover:underline">All</button>
+          <button onClick={() => setSelected(new Set())} className="text-slate-400 hover:underline">None</button>
+        </div>
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto space-y-2 custom-scrollbar">
+        {chapters.map(chapter => (
+          <li key={chapter.id}>
+            <label className={`flex items-center gap-3 px-3 py-2 rounded-xl border cursor-pointer transition-all ${selected.has(chapter.id) ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100 opacity-70'}`}>
+              <input type="checkbox" checked={selected.has(chapter.id)} onChange={() => toggle(chapter.id)} className="accent-indigo-600" />
+              <span className="flex-1 text-sm font-medium text-slate-800 truncate">{chapter.title}</span>
+              <span className="text-[10px] font-mono text-slate-400">{chapter.text.length.toLocaleString()} chars</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase text-slate-400">
+          {selected.size} of {chapters.length} chapters · {selectedChars.toLocaleString()} chars
+        </span>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-slate-400 flex items-center gap-2 active:scale-95 transition-all">
+            <XMarkIcon className="w-4 h-4" /> Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(chapters.filter(c => selected.has(c.id)).map(c => c.id))}
+            disabled={selected.size === 0}
+            className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2.5 rounded-xl text-xs font-bold shadow-lg shadow-indigo-100 flex items-center gap-2 disabled:opacity-50 active:scale-95 transition-all"
+          >
+            <CheckIcon className="w-4 h-4" /> Use Selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { CharacterBibleEntry, CharacterProfile, VoiceOption } from '../types';
+import {
+  BookmarkSquareIcon,
+  ChevronDownIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon,
+  TrashIcon
+} from '@heroicons/react/24/solid';
+
+interface CharacterBiblePanelProps {
+  bible: CharacterBibleEntry[];
+  voices: VoiceOption[];
+  error: string | null;
+  onChange: (bible: CharacterBibleEntry[]) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const fieldClass = "bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export default function CharacterBiblePanel({ bible, voices, error, onChange, onImport, onExport }: CharacterBiblePanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (index: number, patch: Partial<CharacterBibleEntry>) =>
+    onChange(bible.map((e, i) => i === index ? { ...e, ...patch } : e));
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl shadow-sm ring-1 ring-slate-200/50">
+      <div className="p-4 flex items-center gap-3">
+        <BookmarkSquareIcon className="w-4 h-4 text-indigo-400 shrink-0" />
+        <h2 className="flex-1 text-sm font-bold text-slate-400 uppercase tracking-widest">Character Bible</h2>
+        {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+        <label className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 cursor-pointer active:scale-95 transition-all">
+          <ArrowUpTrayIcon className="w-4 h-4" /> Import
+          <input type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+        </label>
+        <button
+          onClick={onExport}
+          disabled={bible.length === 0}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4" /> Export
+        </button>
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 active:scale-95 transition-all"
+        >
+          {bible.length}
+          <ChevronDownIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="border-t border-slate-100 p-4 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+          {bible.length === 0 && (
+            <li className="text-xs text-slate-400 italic">Characters are added here the first time they are cast.</li>
+          )}
+          {bible.map((entry, index) => (
+            <li key={entry.name} className="px-3 py-2 rounded-xl border bg-slate-50 border-slate-100 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-sm font-bold text-slate-800 truncate">{entry.name}</span>
+                <select
+                  value={entry.gender}
+                  onChange={(e) => update(index, { gender: e.target.value as CharacterProfile['gender'] })}
+                  className={fieldClass}
+                >
+                  <option value="male">Male</option>
+                  <option value="female">Female</option>
+                  <option value="neutral">Neutral</option>
+                </select>
+                <select value={entry.voiceId} onChange={(e) => update(index, { voiceId: e.target.value })} className={fieldClass}>
+                  {!voices.some(v => v.id === entry.voiceId) && <option value={entry.voiceId}>{entry.voiceId}</option>}
+                  {voices.map(v => <option key={v.id} value={v.id}>{v.id}</option>)}
+                </select>
+                <button onClick={() => onChange(bible.filter((_, i) => i !== index))} title="Remove" className="text-slate-400 hover:text-rose-500">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                {/* Committed on blur so typing a comma doesn't get normalized away mid-word */}
+                <input
+                  key={entry.aliases.join(',')}
+                  defaultValue={entry.aliases.join(', ')}
+                  onBlur={(e) => update(index, { aliases: e.target.value.split(',').map(a => a.trim()).filter(Boolean) })}
+                  placeholder="Aliases, comma separated"
+                  className={`${fieldClass} w-1/3`}
+                />
+                <input
+                  value={entry.notes}
+                  onChange={(e) => update(index, { notes: e.target.value })}
+                  placeholder="Delivery notes (e.g. slight Scottish lilt, speaks slowly)"
+                  className={`${fieldClass} flex-1`}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { DuckingSettings } from '../types';
+import { ArrowsPointingInIcon } from '@heroicons/react/24/solid';
+
+interface DuckingControlsProps {
+  settings: DuckingSettings;
+  onChange: (settings: DuckingSettings) => void;
+}
+
+const SLIDERS: { key: 'depthDb' | 'attack' | 'release', label: string, min: number, max: number, step: number, unit: string }[] = [
+  { key: 'depthDb', label: 'Depth', min: 0, max: 24, step: 1, unit: 'dB' },
+  { key: 'attack', label: 'Attack', min: 0.02, max: 1, step: 0.02, unit: 's' },
+  { key: 'release', label: 'Release', min: 0.1, max: 3, step: 0.1, unit: 's' }
+];
+
+export default function DuckingControls({ settings, onChange }: DuckingControlsProps) {
+  return (
+    <div className="pt-6 border-t border-slate-100 flex items-center gap-6">
+      <label className="text-[10px] text-slate-400 font-black uppercase flex items-center gap-2 shrink-0 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          className="accent-indigo-600"
+        />
+        <ArrowsPointingInIcon className="w-3.5 h-3.5 opacity-60" /> Duck beds under speech
+      </label>
+      {SLIDERS.map(slider => (
+        <div key={slider.key} className={`flex-1 flex items-center gap-3 ${settings.enabled ? '' : 'opacity-40'}`}>
+          <span className="text-[10px] text-slate-400 font-black uppercase">{slider.label}</span>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={settings[slider.key]}
+            disabled={!settings.enabled}
+            onChange={(e) => onChange({ ...settings, [slider.key]: parseFloat(e.target.value) })}
+            className="flex-1 accent-indigo-500 h-1.5 bg-slate-200/80 rounded-lg appearance-none cursor-pointer"
+          />
+          <span className="w-12 text-right text-xs font-mono font-black text-indigo-700">
+            {slider.key === 'depthDb' ? settings.depthDb : settings[slider.key].toFixed(2)}{slider.unit}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
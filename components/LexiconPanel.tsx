@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { LexiconEntry } from '../types';
+import { createLexiconEntryId } from '../services/lexicon';
+import {
+  LanguageIcon,
+  ChevronDownIcon,
+  PlusIcon,
+  TrashIcon,
+  SpeakerWaveIcon,
+  ArrowPathIcon
+} from '@heroicons/react/24/solid';
+
+interface LexiconPanelProps {
+  lexicon: LexiconEntry[];
+  testingId: string | null;
+  onChange: (lexicon: LexiconEntry[]) => void;
+  onTest: (entry: LexiconEntry) => void;
+  error: string | null;
+}
+
+const fieldClass = "bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export default function LexiconPanel({ lexicon, testingId, onChange, onTest, error }: LexiconPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (id: string, patch: Partial<LexiconEntry>) =>
+    onChange(lexicon.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  const addEntry = () => {
+    onChange([...lexicon, { id: createLexiconEntryId(), word: '', pronunciation: '', kind: 'respelling', caseSensitive: false, wholeWord: true }]);
+    setIsOpen(true);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl shadow-sm ring-1 ring-slate-200/50">
+      <div className="p-4 flex items-center gap-3">
+        <LanguageIcon className="w-4 h-4 text-indigo-400 shrink-0" />
+        <h2 className="flex-1 text-sm font-bold text-slate-400 uppercase tracking-widest">Pronunciation</h2>
+        {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+        <button
+          onClick={addEntry}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 active:scale-95 transition-all"
+        >
+          <PlusIcon className="w-4 h-4" /> Add Word
+        </button>
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 active:scale-95 transition-all"
+        >
+          {lexicon.length}
+          <ChevronDownIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="border-t border-slate-100 p-4 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+          {lexicon.length === 0 && (
+            <li className="text-xs text-slate-400 italic">No entries. Add invented names and how they should sound.</li>
+          )}
+          {lexicon.map(entry => (
+            <li key={entry.id} className="px-3 py-2 rounded-xl border bg-slate-50 border-slate-100 flex flex-wrap items-center gap-2">
+              <input
+                value={entry.word}
+                onChange={(e) => update(entry.id, { word: e.target.value })}
+                placeholder="Word"
+                className={`${fieldClass} w-36 font-bold`}
+              />
+              <span className="text-[10px] text-slate-400">→</span>
+              <input
+                value={entry.pronunciation}
+                onChange={(e) => update(entry.id, { pronunciation: e.target.value })}
+                placeholder={entry.kind === 'ipa' ? 'IPA, e.g. dəˈnɛərɪs' : 'Respelling, e.g. duh-NAIR-iss'}
+                className={`${fieldClass} flex-1 min-w-[10rem] ${entry.kind === 'ipa' ? 'font-mono' : ''}`}
+              />
+              <select
+                value={entry.kind}
+                onChange={(e) => update(entry.id, { kind: e.target.value as LexiconEntry['kind'] })}
+                className={fieldClass}
+              >
+                <option value="respelling">Respelling</option>
+                <option value="ipa">IPA</option>
+              </select>
+              <label className="text-[10px] font-bold text-slate-500 flex items-center gap-1">
+                <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => update(entry.id, { caseSensitive: e.target.checked })} />
+                Aa
+              </label>
+              <label className="text-[10px] font-bold text-slate-500 flex items-center gap-1">
+                <input type="checkbox" checked={entry.wholeWord} onChange={(e) => update(entry.id, { wholeWord: e.target.checked })} />
+                Whole word
+              </label>
+              <button
+                onClick={() => onTest(entry)}
+                disabled={testingId !== null || !entry.word.trim() || !entry.pronunciation.trim()}
+                title="Test pronunciation"
+                className="text-indigo-600 hover:text-indigo-800 disabled:opacity-40"
+              >
+                {testingId === entry.id ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <SpeakerWaveIcon className="w-4 h-4" />}
+              </button>
+              <button onClick={() => onChange(lexicon.filter(e => e.id !== entry.id))} title="Remove" className="text-slate-400 hover:text-rose-500">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
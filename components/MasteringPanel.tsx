@@ -0,0 +1,81 @@
+import React from 'react';
+import { MasteringReport, MasteringTargetId } from '../types';
+import { MASTERING_TARGETS } from '../services/mastering';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon, CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/solid';
+
+interface MasteringPanelProps {
+  target: MasteringTargetId;
+  report: MasteringReport | null;
+  busy: boolean;
+  onTargetChange: (target: MasteringTargetId) => void;
+  onCheck: () => void;
+}
+
+const formatDb = (value: number) => value <= -120 ? '−∞' : value.toFixed(1);
+
+export default function MasteringPanel({ target, report, busy, onTargetChange, onCheck }: MasteringPanelProps) {
+  return (
+    <div className="pt-6 border-t border-slate-100 space-y-4">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] text-slate-400 font-black uppercase flex items-center gap-2">
+          <AdjustmentsHorizontalIcon className="w-3.5 h-3.5 opacity-60" /> Mastering
+        </span>
+        <select
+          value={target}
+          onChange={(e) => onTargetChange(e.target.value as MasteringTargetId)}
+          title="Delivery target applied on export"
+          className="text-xs font-bold text-slate-600 bg-slate-50 border border-slate-200 px-3 py-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {Object.values(MASTERING_TARGETS).map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+        </select>
+        <button
+          onClick={onCheck}
+          disabled={busy}
+          className="text-xs font-bold text-indigo-700 bg-white border border-slate-200 px-4 py-2 rounded-xl hover:border-indigo-400 flex items-center gap-2 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          {busy ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <CheckCircleIcon className="w-4 h-4" />} Check Mix
+        </button>
+        {report && report.target === target && (
+          <span className={`ml-auto text-[10px] font-black uppercase px-3 py-1.5 rounded-lg flex items-center gap-1.5 ${report.pass ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>
+            {report.pass ? <CheckCircleIcon className="w-4 h-4" /> : <XCircleIcon className="w-4 h-4" />}
+            {report.pass ? 'Meets spec' : 'Fails spec'}
+          </span>
+        )}
+      </div>
+
+      {report && report.target === target && (
+        <div className="bg-slate-50 rounded-xl border border-slate-100 overflow-hidden">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] text-slate-400 font-black uppercase text-left">
+                <th className="px-4 py-2">Measure</th>
+                <th className="px-4 py-2">Mix</th>
+                <th className="px-4 py-2">Mastered</th>
+                <th className="px-4 py-2">Spec</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100 font-mono">
+              {report.checks.map(check => (
+                <tr key={check.measure}>
+                  <td className="px-4 py-2 font-sans font-bold text-slate-600">{check.label}</td>
+                  <td className="px-4 py-2 text-slate-400">{formatDb(report.before[check.measure])}</td>
+                  <td className="px-4 py-2 text-slate-700 font-bold">{formatDb(check.value)}</td>
+                  <td className="px-4 py-2 text-slate-400">{check.requirement}</td>
+                  <td className="px-4 py-2">
+                    {check.pass ? <CheckCircleIcon className="w-4 h-4 text-emerald-500" /> : <XCircleIcon className="w-4 h-4 text-rose-500" />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="px-4 py-2 text-[10px] text-slate-400 border-t border-slate-100">
+            Gain {report.gainDb >= 0 ? '+' : ''}{report.gainDb.toFixed(1)} dB
+            {report.limitedDb < -0.05 ? ` · limiter up to ${report.limitedDb.toFixed(1)} dB` : ''}
+            {!report.pass && report.checks.some(c => c.measure === 'noiseFloorDb' && !c.pass) ? ' · lower the ambience and score beds to bring the floor down' : ''}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ProjectSummary } from '../types';
+import {
+  FolderOpenIcon,
+  FolderIcon,
+  DocumentDuplicateIcon,
+  TrashIcon,
+  PlusIcon,
+  CloudArrowUpIcon,
+  ArrowPathIcon,
+  SpeakerWaveIcon,
+  ChevronDownIcon
+} from '@heroicons/react/24/solid';
+
+interface ProjectsPanelProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  projectName: string;
+  onProjectNameChange: (name: string) => void;
+  isSaving: boolean;
+  onSave: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  error: string | null;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function ProjectsPanel({
+  projects, currentProjectId, projectName, onProjectNameChange, isSaving, onSave, onNew, onOpen, onDuplicate, onDelete, error
+}: ProjectsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl shadow-sm ring-1 ring-slate-200/50">
+      <div className="p-4 flex items-center gap-3">
+        <FolderIcon className="w-4 h-4 text-indigo-400 shrink-0" />
+        <input
+          value={projectName}
+          onChange={(e) => onProjectNameChange(e.target.value)}
+          placeholder="Project name"
+          className="flex-1 bg-slate-50 border border-slate-200 rounded-xl px-4 py-2 text-sm font-bold text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+        />
+        {error && <span className="text-xs font-bold text-rose-500">{error}</span>}
+        <button
+          onClick={onSave}
+          disabled={isSaving || !projectName.trim()}
+          className="bg-indigo-600 hover:bg-indigo-700 text-white text-xs px-4 py-2.5 rounded-xl flex items-center gap-2 font-bold shadow-lg shadow-indigo-100 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          {isSaving ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <CloudArrowUpIcon className="w-4 h-4" />} Save
+        </button>
+        <button
+          onClick={onNew}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 active:scale-95 transition-all"
+        >
+          <PlusIcon className="w-4 h-4" /> New
+        </button>
+        <button
+          onClick={() => setIsOpen(o => !o)}
+          className="text-xs font-bold text-slate-500 bg-white border border-slate-200 px-4 py-2.5 rounded-xl hover:border-indigo-400 flex items-center gap-2 active:scale-95 transition-all"
+        >
+          <FolderOpenIcon className="w-4 h-4" /> {projects.length}
+          <ChevronDownIcon className={`w-3 h-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {isOpen && (
+        <ul className="border-t border-slate-100 p-4 space-y-2 max-h-64 overflow-y-auto custom-scrollbar">
+          {projects.length === 0 && (
+            <li className="text-xs text-slate-400 italic">No saved projects yet.</li>
+          )}
+          {projects.map(p => (
+            <li
+              key={p.id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-xl border ${p.id === currentProjectId ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-100'}`}
+            >
+              <button onClick={() => onOpen(p.id)} className="flex-1 text-left">
+                <span className="block text-sm font-bold text-slate-800 truncate">{p.name}</span>
+                <span className="text-[10px] text-slate-400 font-mono flex items-center gap-2">
+                  {formatDate(p.updatedAt)}
+                  {p.hasAudio && <SpeakerWaveIcon className="w-3 h-3 text-emerald-500" />}
+                </span>
+              </button>
+              <button onClick={() => onDuplicate(p.id)} title="Duplicate" className="text-slate-400 hover:text-indigo-600">
+                <DocumentDuplicateIcon className="w-4 h-4" />
+              </button>
+              <button onClick={() => onDelete(p.id)} title="Delete" className="text-slate-400 hover:text-rose-500">
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface ReadAlongTextProps {
+  text: string;
+  progress: number; // 0..1 through the segment's speech
+}
+
+// Word position is estimated from character position; good enough to follow along,
+// without needing word-level alignment from the TTS engine.
+export default function ReadAlongText({ text, progress }: ReadAlongTextProps) {
+  const tokens = text.split(/(\s+)/);
+  const target = Math.min(text.length - 1, Math.max(0, Math.floor(progress * text.length)));
+  let cursor = 0;
+  let activeIndex = -1;
+  tokens.forEach((token, i) => {
+    if (activeIndex === -1 && target < cursor + token.length && token.trim()) activeIndex = i;
+    cursor += token.length;
+  });
+
+  return (
+    <>
+      {tokens.map((token, i) => (
+        <span key={i} className={i === activeIndex ? 'bg-indigo-200/70 text-indigo-900 rounded px-0.5 -mx-0.5 transition-colors' : undefined}>
+          {token}
+        </span>
+      ))}
+    </>
+  );
+}
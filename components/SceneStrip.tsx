@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { CustomImpulse, ParsedSegment, SceneContext } from '../types';
+import { segmentSceneIds } from '../services/scenes';
+import { REVERB_PRESETS, pickReverbPreset, reverbLabel, sceneReverb } from '../services/reverb';
+import {
+  MapPinIcon,
+  ClockIcon,
+  FaceSmileIcon,
+  SpeakerWaveIcon,
+  MusicalNoteIcon,
+  ArrowUturnLeftIcon,
+  ArrowUpTrayIcon,
+  BuildingLibraryIcon
+} from '@heroicons/react/24/solid';
+
+interface SceneStripProps {
+  scenes: SceneContext[];
+  segments: ParsedSegment[];
+  impulses: CustomImpulse[];
+  impulseError: string | null;
+  editable: boolean;
+  onChange: (id: string, patch: Partial<SceneContext>) => void;
+  onMergeIntoPrevious: (id: string) => void;
+  onUploadImpulse: (sceneId: string, file: File) => void;
+}
+
+const ROOM_TONES: SceneContext['roomToneType'][] = ['quiet_room', 'nature', 'city', 'industrial', 'silence'];
+const BG_NOISES: SceneContext['bgNoiseType'][] = ['rain', 'wind', 'crowd', 'machinery', 'none'];
+const SCORE_STYLES: SceneContext['scoreStyle'][] = ['happy', 'sad', 'tense', 'mysterious', 'romantic', 'neutral'];
+
+const fieldClass = "bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+const label = (value: string) => value.replace('_', ' ');
+
+export default function SceneStrip({ scenes, segments, impulses, impulseError, editable, onChange, onMergeIntoPrevious, onUploadImpulse }: SceneStripProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const ids = segmentSceneIds(segments, scenes);
+  // Scenes left without segments (after edits) play nowhere, so they aren't shown
+  const shown = scenes
+    .map(scene => ({ scene, count: ids.filter(id => id === scene.id).length, first: ids.indexOf(scene.id) }))
+    .filter(s => s.count > 0)
+    .sort((a, b) => a.first - b.first);
+  const selected = shown.find(s => s.scene.id === selectedId)?.scene;
+
+  const handleImpulseFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && selected) onUploadImpulse(selected.id, file);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl p-5 shadow-sm space-y-4">
+      <div className="flex gap-4 overflow-x-auto custom-scrollbar pb-1">
+        {shown.map(({ scene, count, first }, idx) => (
+          <button
+            key={scene.id}
+            onClick={() => setSelectedId(id => id === scene.id ? null : scene.id)}
+            className={`text-left shrink-0 w-56 bg-slate-50 p-4 rounded-2xl border flex flex-col gap-2 transition-transform hover:-translate-y-1 shadow-sm ${scene.id === selectedId ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-slate-100'}`}
+          >
+            <span className="text-[10px] text-slate-400 uppercase font-black flex items-center gap-2">
+              <MapPinIcon className="w-4 h-4 text-rose-400" /> Scene {idx + 1}
+              <span className="ml-auto font-mono normal-case">#{first + 1} · {count}</span>
+            </span>
+            <span className="text-rose-500 font-black capitalize leading-tight text-sm truncate">{scene.location}</span>
+            <span className="text-[11px] text-slate-600 font-bold flex items-center gap-1.5 capitalize">
+              <ClockIcon className="w-3.5 h-3.5 text-slate-400" /> {scene.timeOfDay || 'Unknown'}
+            </span>
+            <span className="text-[11px] text-indigo-600 font-bold flex items-center gap-1.5 capitalize">
+              <FaceSmileIcon className="w-3.5 h-3.5 text-indigo-400" /> {scene.mood}
+            </span>
+            <span className="text-[11px] text-emerald-600 font-bold flex items-center gap-1.5 capitalize truncate">
+              <SpeakerWaveIcon className="w-3.5 h-3.5 text-emerald-400" /> {label(scene.roomToneType)}{scene.ambientSounds.length > 0 ? ` · ${scene.ambientSounds.join(', ')}` : ''}
+            </span>
+            <span className="text-[11px] text-amber-600 font-bold flex items-center gap-1.5 capitalize">
+              <MusicalNoteIcon className="w-3.5 h-3.5 text-amber-400" /> {scene.scoreStyle}
+            </span>
+            <span className="text-[11px] text-sky-600 font-bold flex items-center gap-1.5 truncate">
+              <BuildingLibraryIcon className="w-3.5 h-3.5 text-sky-400" /> {reverbLabel(sceneReverb(scene, impulses), impulses)}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="bg-slate-50 border border-slate-100 rounded-xl p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={selected.location}
+              onChange={(e) => onChange(selected.id, { location: e.target.value })}
+              disabled={!editable}
+              placeholder="Location"
+              className={`${fieldClass} w-40`}
+            />
+            <input
+              value={selected.timeOfDay}
+              onChange={(e) => onChange(selected.id, { timeOfDay: e.target.value })}
+              disabled={!editable}
+              placeholder="Time"
+              className={`${fieldClass} w-28`}
+            />
+            <input
+              value={selected.mood}
+              onChange={(e) => onChange(selected.id, { mood: e.target.value })}
+              disabled={!editable}
+              placeholder="Mood"
+              className={`${fieldClass} w-28`}
+            />
+            <select
+              value={selected.scoreStyle}
+              onChange={(e) => onChange(selected.id, { scoreStyle: e.target.value as SceneContext['scoreStyle'] })}
+              disabled={!editable}
+              title="Score"
+              className={`${fieldClass} capitalize`}
+            >
+              {SCORE_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select
+              value={selected.roomToneType}
+              onChange={(e) => onChange(selected.id, { roomToneType: e.target.value as SceneContext['roomToneType'] })}
+              disabled={!editable}
+              title="Room tone"
+              className={`${fieldClass} capitalize`}
+            >
+              {ROOM_TONES.map(s => <option key={s} value={s}>{label(s)}</option>)}
+            </select>
+            <select
+              value={selected.bgNoiseType}
+              onChange={(e) => onChange(selected.id, { bgNoiseType: e.target.value as SceneContext['bgNoiseType'] })}
+              disabled={!editable}
+              title="Background noise"
+              className={`${fieldClass} capitalize`}
+            >
+              {BG_NOISES.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+            <select
+              value={selected.reverb && sceneReverb(selected, impulses) === selected.reverb ? selected.reverb : ''}
+              onChange={(e) => onChange(selected.id, { reverb: e.target.value || undefined })}
+              disabled={!editable}
+              title="Reverb"
+              className={fieldClass}
+            >
+              <option value="">Auto ({REVERB_PRESETS[pickReverbPreset(selected)].label})</option>
+              {Object.values(REVERB_PRESETS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              {impulses.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+            {editable && (
+              <label
+                title="Upload an impulse response WAV for this scene"
+                className="text-[10px] font-black uppercase text-slate-500 flex items-center gap-1 bg-white px-2.5 py-1.5 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-400 cursor-pointer active:scale-95 transition-all"
+              >
+                <ArrowUpTrayIcon className="w-3 h-3" /> Impulse
+                <input type="file" accept=".wav,audio/wav,audio/*" onChange={handleImpulseFile} className="hidden" />
+              </label>
+            )}
+            {impulseError && <span className="text-xs font-bold text-rose-500">{impulseError}</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              key={selected.id}
+              defaultValue={selected.ambientSounds.join(', ')}
+              onBlur={(e) => onChange(selected.id, { ambientSounds: e.target.value.split(',').map(s => s.trim()).filter(Boolean) })}
+              disabled={!editable}
+              placeholder="Ambient sounds, comma separated"
+              className={`${fieldClass} flex-1`}
+            />
+            {editable && shown[0]?.scene.id !== selected.id && (
+              <button
+                onClick={() => {
+                  onMergeIntoPrevious(selected.id);
+                  setSelectedId(null);
+                }}
+                title="Fold this scene into the one before it"
+                className="text-[10px] font-black uppercase text-slate-500 flex items-center gap-1 bg-white px-2.5 py-1.5 rounded-lg border border-slate-200 shadow-sm hover:border-rose-400 active:scale-95 transition-all"
+              >
+                <ArrowUturnLeftIcon className="w-3 h-3" /> Merge into previous
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
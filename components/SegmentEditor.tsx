@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import { ParsedSegment } from '../types';
+import { SFX_VOCABULARY } from '../services/audioEngine';
+import { ScissorsIcon, CheckIcon } from '@heroicons/react/24/solid';
+
+interface SegmentEditorProps {
+  segment: ParsedSegment;
+  speakers: string[];
+  onChange: (patch: Partial<ParsedSegment>) => void;
+  onSplit: (at: number) => void;
+  onDone: () => void;
+}
+
+const fieldClass = "bg-white border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs font-bold text-slate-700 focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export default function SegmentEditor({ segment, speakers, onChange, onSplit, onDone }: SegmentEditorProps) {
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const listId = `speakers-${segment.id}`;
+  const sfxListId = `sfx-${segment.id}`;
+
+  const changeSpeaker = (speaker: string) => {
+    const isNarrator = speaker.trim().toLowerCase() === 'narrator';
+    onChange({
+      speaker: isNarrator ? 'Narrator' : speaker,
+      isNarrator,
+      ...(isNarrator ? { gender: 'neutral' as const, emotion: 'Matter-of-fact' } : {})
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          value={segment.speaker}
+          onChange={(e) => changeSpeaker(e.target.value)}
+          list={listId}
+          placeholder="Speaker"
+          className={`${fieldClass} w-36`}
+        />
+        <datalist id={listId}>
+          {speakers.map(s => <option key={s} value={s} />)}
+        </datalist>
+        {!segment.isNarrator && (
+          <input
+            value={segment.emotion}
+            onChange={(e) => onChange({ emotion: e.target.value })}
+            placeholder="Emotion"
+            className={`${fieldClass} w-32 italic`}
+          />
+        )}
+        <input
+          value={segment.sfx ?? ''}
+          onChange={(e) => onChange({ sfx: e.target.value || undefined })}
+          list={sfxListId}
+          placeholder="SFX"
+          className={`${fieldClass} w-28 text-amber-600`}
+        />
+        <datalist id={sfxListId}>
+          {Object.keys(SFX_VOCABULARY).map(s => <option key={s} value={s} />)}
+        </datalist>
+        <input
+          value={segment.direction ?? ''}
+          onChange={(e) => onChange({ direction: e.target.value || undefined })}
+          placeholder="Direction"
+          className={`${fieldClass} w-40 text-violet-600`}
+        />
+        <input
+          type="number"
+          min={0}
+          step={0.25}
+          value={segment.pauseAfter ?? ''}
+          onChange={(e) => onChange({ pauseAfter: parseFloat(e.target.value) > 0 ? parseFloat(e.target.value) : undefined })}
+          title="Pause after (seconds)"
+          placeholder="Pause s"
+          className={`${fieldClass} w-20 font-mono`}
+        />
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => onSplit(textRef.current?.selectionStart ?? Math.floor(segment.text.length / 2))}
+            title="Split at cursor"
+            className="text-[10px] font-black uppercase text-slate-500 flex items-center gap-1 bg-white px-2.5 py-1 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-400 active:scale-95 transition-all"
+          >
+            <ScissorsIcon className="w-3 h-3" /> Split
+          </button>
+          <button
+            onClick={onDone}
+            className="text-[10px] font-black uppercase text-white flex items-center gap-1 bg-indigo-600 px-2.5 py-1 rounded-lg shadow-sm hover:bg-indigo-700 active:scale-95 transition-all"
+          >
+            <CheckIcon className="w-3 h-3" /> Done
+          </button>
+        </div>
+      </div>
+      <textarea
+        ref={textRef}
+        value={segment.text}
+        onChange={(e) => onChange({ text: e.target.value })}
+        rows={Math.min(6, Math.max(2, Math.ceil(segment.text.length / 80)))}
+        className="w-full bg-white border border-slate-200 rounded-xl p-3 text-[15px] leading-relaxed text-slate-800 focus:ring-2 focus:ring-indigo-500 focus:outline-none resize-y"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { SpeakerGroup } from '../types';
+import { isMergedGroup } from '../services/characterResolver';
+import { UserGroupIcon, CheckIcon, XMarkIcon, CheckBadgeIcon } from '@heroicons/react/24/solid';
+
+interface SpeakerGroupsProps {
+  groups: SpeakerGroup[];
+  editable: boolean;
+  onConfirm: (canonical: string) => void;
+  onSplit: (canonical: string, variant: string) => void;
+}
+
+export default function SpeakerGroups({ groups, editable, onConfirm, onSplit }: SpeakerGroupsProps) {
+  const merged = groups.filter(isMergedGroup);
+  if (merged.length === 0) return null;
+
+  return (
+    <div className="px-5 py-4 border-b border-slate-100 bg-indigo-50/30 space-y-2">
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-2">
+        <UserGroupIcon className="w-3.5 h-3.5 text-indigo-400" /> Merged Characters
+      </p>
+      {merged.map(group => (
+        <div key={group.canonical} className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-black text-slate-700">{group.canonical}</span>
+          <span className="text-[10px] text-slate-400">←</span>
+          {group.variants.filter(v => v !== group.canonical).map(variant => (
+            <span key={variant} className="text-[10px] font-bold text-slate-600 bg-white px-2 py-0.5 rounded-md border border-slate-200 flex items-center gap-1">
+              {variant}
+              {editable && !group.confirmed && (
+                <button onClick={() => onSplit(group.canonical, variant)} title="Not the same character" className="text-slate-400 hover:text-rose-500">
+                  <XMarkIcon className="w-3 h-3" />
+                </button>
+              )}
+            </span>
+          ))}
+          {group.confirmed ? (
+            <CheckBadgeIcon className="w-4 h-4 text-emerald-500" title="Confirmed" />
+          ) : editable && (
+            <button
+              onClick={() => onConfirm(group.canonical)}
+              className="ml-auto text-[10px] font-black uppercase text-emerald-600 flex items-center gap-1 bg-white px-2.5 py-1 rounded-lg border border-slate-200 shadow-sm hover:border-emerald-400 active:scale-95 transition-all"
+            >
+              <CheckIcon className="w-3 h-3" /> Confirm
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
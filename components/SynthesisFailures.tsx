@@ -0,0 +1,63 @@
+import React from 'react';
+import { FillerKind, SynthesisFailure } from '../types';
+import { ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
+
+interface SynthesisFailuresProps {
+  failures: SynthesisFailure[];
+  busy: boolean;
+  onRetry: (signature: string) => void;
+  onRetryAll: () => void;
+  onFill: (signature: string, fill: FillerKind) => void;
+}
+
+export default function SynthesisFailures({ failures, busy, onRetry, onRetryAll, onFill }: SynthesisFailuresProps) {
+  if (failures.length === 0) return null;
+
+  return (
+    <div className="bg-rose-50 border border-rose-200 rounded-2xl p-5 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-bold text-rose-600 uppercase tracking-widest flex items-center gap-2">
+          <ExclamationTriangleIcon className="w-4 h-4" /> {failures.length} {failures.length === 1 ? 'line' : 'lines'} failed to synthesize
+        </h3>
+        <button
+          onClick={onRetryAll}
+          disabled={busy}
+          className="text-xs font-bold text-rose-600 bg-white border border-rose-200 px-4 py-2 rounded-xl hover:border-rose-400 flex items-center gap-2 disabled:opacity-50 active:scale-95 transition-all"
+        >
+          <ArrowPathIcon className="w-4 h-4" /> Retry All
+        </button>
+      </div>
+      <ul className="space-y-2 max-h-56 overflow-y-auto custom-scrollbar">
+        {failures.map(f => (
+          <li key={f.signature} className="bg-white rounded-xl border border-rose-100 px-3 py-2 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-slate-700 truncate">
+                <span className="font-black uppercase text-[10px] text-slate-500 mr-2">{f.speaker}</span>
+                {f.text}
+              </p>
+              <p className="text-[10px] text-rose-400 font-mono truncate">{f.error}</p>
+            </div>
+            <select
+              value={f.fill}
+              onChange={(e) => onFill(f.signature, e.target.value as FillerKind)}
+              disabled={busy}
+              title="Stand-in used in the mix"
+              className="text-[10px] font-bold text-slate-500 bg-slate-50 border border-slate-200 px-2 py-1.5 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-400"
+            >
+              <option value="silence">Silence</option>
+              <option value="placeholder">Placeholder tone</option>
+            </select>
+            <button
+              onClick={() => onRetry(f.signature)}
+              disabled={busy}
+              title="Retry this line"
+              className="text-rose-500 hover:text-rose-700 disabled:opacity-40"
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { SAMPLE_RATE } from './audioEngine';
+
+// Finds where each segment starts inside a merged speech render. Character counts give a first
+// guess at every boundary; the guess then snaps to the most convincing pause (a run of low-energy
+// frames) nearby. Readers pause at segment ends, which are nearly always sentence or clause breaks,
+// so a real gap near the estimate is a far better boundary than the estimate itself.
+
+const FRAME_SECONDS = 0.01;
+const MIN_PAUSE_SECONDS = 0.06;
+
+interface Pause {
+  start: number; // seconds
+  end: number;
+}
+
+const frameEnergies = (audio: Int16Array, sampleRate: number) => {
+  const frame = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+  const energies = new Float32Array(Math.ceil(audio.length / frame));
+  for (let f = 0; f < energies.length; f++) {
+    let sum = 0;
+    const end = Math.min(audio.length, (f + 1) * frame);
+    for (let i = f * frame; i < end; i++) sum += (audio[i] / 32768) ** 2;
+    energies[f] = Math.sqrt(sum / Math.max(1, end - f * frame));
+  }
+  return energies;
+};
+
+const findPauses = (energies: Float32Array): Pause[] => {
+  const sorted = Array.from(energies).sort((a, b) => a - b);
+  const floor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+  const speech = sorted[Math.floor(sorted.length * 0.9)] ?? 0;
+  // Between the noise floor and typical speech level, biased low so soft consonants aren't gaps
+  const threshold = floor + (speech - floor) * 0.12;
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  for (let f = 0; f <= energies.length; f++) {
+    const silent = f < energies.length && energies[f] <= threshold;
+    if (silent && runStart < 0) runStart = f;
+    if (!silent && runStart >= 0) {
+      const start = runStart * FRAME_SECONDS;
+      const end = f * FRAME_SECONDS;
+      if (end - start >= MIN_PAUSE_SECONDS) pauses.push({ start, end });
+      runStart = -1;
+    }
+  }
+  return pauses;
+};
+
+// Spoken weight of a segment: letters, plus the pause its closing punctuation usually earns
+const textWeight = (text: string) => {
+  const letters = (text.match(/[\p{L}\p{N}]/gu) || []).length;
+  const stops = (text.match(/[.!?…]/g) || []).length;
+  const commas = (text.match(/[,;:—–]/g) || []).length;
+  return Math.max(1, letters + stops * 6 + commas * 3);
+};
+
+// Returns one duration per text, summing to the render's length
+export const alignSegments = (audio: Int16Array, texts: string[], sampleRate: number = SAMPLE_RATE): number[] => {
+  const total = audio.length / sampleRate;
+  if (texts.length <= 1) return [total];
+
+  const weights = texts.map(textWeight);
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const pauses = findPauses(frameEnergies(audio, sampleRate));
+
+  const boundaries: number[] = [];
+  let cumulative = 0;
+  let previous = 0;
+  for (let k = 0; k < texts.length - 1; k++) {
+    cumulative += weights[k];
+    const expected = total * (cumulative / weightSum);
+    const segmentLength = total * (weights[k] / weightSum);
+    const window = Math.max(0.4, segmentLength * 0.5);
+    let chosen = Math.max(previous, expected);
+    let bestScore = -Infinity;
+    for (const p of pauses) {
+      const mid = (p.start + p.end) / 2;
+      if (mid <= previous + 0.05 || Math.abs(mid - expected) > window) continue;
+      // Long pauses close to the estimate win; distance costs more than length earns
+      const score = (p.end - p.start) - Math.abs(mid - expected) * 0.5;
+      if (score > bestScore) {
+        bestScore = score;
+        chosen = mid;
+      }
+    }
+    boundaries.push(chosen);
+    previous = chosen;
+  }
+
+  const edges = [0, ...boundaries, total];
+  return texts.map((_, i) => Math.max(0, edges[i + 1] - edges[i]));
+};
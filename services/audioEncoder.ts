@@ -0,0 +1,73 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+const MP3_BLOCK_SIZE = 1152;
+
+const floatToInt16 = (data: Float32Array): Int16Array => {
+  const out = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return out;
+};
+
+const writeString = (view: DataView, offset: number, str: string) => {
+  for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+};
+
+// 16-bit PCM RIFF/WAVE, channels interleaved
+export const encodeWAVData = (buffer: AudioBuffer): Uint8Array => {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = buffer.length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numChannels }, (_, c) => floatToInt16(buffer.getChannelData(c)));
+  let offset = 44;
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      view.setInt16(offset, channels[c][i], true);
+      offset += bytesPerSample;
+    }
+  }
+  return new Uint8Array(view.buffer);
+};
+
+export const encodeWAV = (buffer: AudioBuffer): Blob =>
+  new Blob([encodeWAVData(buffer) as BlobPart], { type: 'audio/wav' });
+
+// LAME only handles mono/stereo, so anything wider is folded down to the first two channels
+export const encodeMP3 = (buffer: AudioBuffer, kbps: number = 128): Blob => {
+  const numChannels = Math.min(2, buffer.numberOfChannels);
+  const encoder = new Mp3Encoder(numChannels, buffer.sampleRate, kbps);
+  const left = floatToInt16(buffer.getChannelData(0));
+  const right = numChannels > 1 ? floatToInt16(buffer.getChannelData(1)) : undefined;
+  const chunks: Uint8Array[] = [];
+
+  for (let i = 0; i < left.length; i += MP3_BLOCK_SIZE) {
+    const l = left.subarray(i, i + MP3_BLOCK_SIZE);
+    const r = right?.subarray(i, i + MP3_BLOCK_SIZE);
+    const chunk = encoder.encodeBuffer(l, r);
+    if (chunk.length > 0) chunks.push(chunk);
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(tail);
+
+  return new Blob(chunks as BlobPart[], { type: 'audio/mpeg' });
+};
@@ -1,12 +1,13 @@
-import { SceneContext, ParsedSegment } from "../types";
+import { SceneContext, ParsedSegment, AudioTracks, MixLevels, TrackKey, SegmentTiming, CharacterProfile, DuckingSettings, CustomImpulse } from "../types";
+import { sceneRegions, segmentSceneIds } from './scenes';
+import { getImpulseResponse, reverbWet, sceneReverb } from './reverb';
 
 let audioCtx: AudioContext | null = null;
-const SAMPLE_RATE = 24000; // Native 24kHz to match Gemini Output (Optimization)
+export const SAMPLE_RATE = 24000; // Native 24kHz to match Gemini Output (Optimization)
 
 // --- Caches ---
 const sfxCache = new Map<string, AudioBuffer>();
 const sfxPending = new Map<string, Promise<AudioBuffer>>(); // Dedup in-flight requests
-let cachedImpulse: AudioBuffer | null = null;
 
 // OPTIMIZATION: Shared Noise Buffer (10 seconds)
 const NOISE_BUFFER_SIZE = SAMPLE_RATE * 10;
@@ -44,6 +45,30 @@ export const base64ToInt16 = (base64: string): Int16Array => {
   return new Int16Array(bytes.buffer);
 };
 
+export const int16ToAudioBuffer = (ctx: BaseAudioContext, data: Int16Array): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, Math.max(1, data.length), SAMPLE_RATE);
+  const channel = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) channel[i] = data[i] < 0 ? data[i] / 32768 : data[i] / 32767;
+  return buffer;
+};
+
+// Stand-in for a line whose synthesis failed, sized to roughly how long it would take to read
+export const createFillerSpeech = (text: string, kind: 'silence' | 'placeholder'): Int16Array => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const duration = Math.max(0.5, words / 2.6);
+  const data = new Int16Array(Math.floor(duration * SAMPLE_RATE));
+  if (kind === 'placeholder') {
+    // Quiet two-tone beep at either end, so the gap is audible but unmistakably not speech
+    const beep = Math.floor(0.15 * SAMPLE_RATE);
+    for (let i = 0; i < beep && i < data.length / 2; i++) {
+      const fade = Math.sin(Math.PI * i / beep);
+      data[i] = Math.round(Math.sin(2 * Math.PI * 660 * i / SAMPLE_RATE) * fade * 4000);
+      data[data.length - 1 - i] = Math.round(Math.sin(2 * Math.PI * 440 * i / SAMPLE_RATE) * fade * 4000);
+    }
+  }
+  return data;
+};
+
 export const createSilenceBuffer = (duration: number): AudioBuffer => {
   const ctx = getAudioContext();
   const safeDuration = Math.max(0.1, duration); 
@@ -63,25 +88,85 @@ export const trimSilenceRaw = (data: Int16Array): Int16Array => {
   return data.subarray(start, end);
 };
 
-// --- Reverb ---
+// Linear interpolation is plenty for speech going between common TTS rates
+export const resampleInt16 = (data: Int16Array, fromRate: number, toRate: number): Int16Array => {
+  if (fromRate === toRate) return data;
+  const ratio = fromRate / toRate;
+  const out = new Int16Array(Math.floor(data.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const idx = Math.floor(pos);
+    const frac = pos - idx;
+    const next = idx + 1 < data.length ? data[idx + 1] : data[idx];
+    out[i] = Math.round(data[idx] * (1 - frac) + next * frac);
+  }
+  return out;
+};
 
-const getImpulseResponse = (ctx: BaseAudioContext, duration: number, decay: number) => {
-  if (cachedImpulse) return cachedImpulse;
+// --- Stereo placement ---
 
-  const length = ctx.sampleRate * duration;
-  const impulse = ctx.createBuffer(1, length, ctx.sampleRate);
-  const channel = impulse.getChannelData(0);
+// Positions a source in the stereo field. Every pan, centre included, goes through the same
+// equal-power law, which leaves a mono source 3 dB down per side at centre; the makeup gain lifts
+// that back to unity, so moving a character off centre keeps their level. A mono render gets no
+// panner at all: downmixing an equal-power pan would make off-centre sources quieter than centred ones.
+const panTo = (ctx: BaseAudioContext, pan: number, destination: AudioNode): AudioNode => {
+  if (ctx.destination.channelCount < 2) return destination;
+  const panner = ctx.createStereoPanner();
+  // Taken as mono so the mono law applies; a stereo input would pass centre through at unity
+  panner.channelCount = 1;
+  panner.channelCountMode = 'explicit';
+  panner.pan.value = Math.max(-1, Math.min(1, pan));
+  const makeup = ctx.createGain();
+  makeup.gain.value = Math.SQRT2;
+  panner.connect(makeup).connect(destination);
+  return panner;
+};
 
-  for (let i = 0; i < length; i++) {
-    const n = i / length;
-    const val = Math.pow(1 - n, decay) * (Math.random() * 2 - 1);
-    channel[i] = val;
-  }
-  
-  cachedImpulse = impulse;
-  return impulse;
+// Distance 0 is a close mic, 1 across the room: quieter, duller and wetter
+const distanceSettings = (distance: number = 0) => {
+  const d = Math.max(0, Math.min(1, distance));
+  return {
+    gain: 1 - 0.55 * d,
+    cutoff: 16000 * Math.pow(2500 / 16000, d),
+    send: 0.1 + 0.35 * d
+  };
+};
+
+// --- Sound vocabulary ---
+// Keyword groups each procedural branch responds to. Every group key also matches its own
+// branch, so analysis can hand the key straight to generateSFX / generateAmbience.
+
+export const AMBIENT_VOCABULARY = {
+  wind: ['wind', 'breeze', 'air'],
+  birds: ['bird', 'chirp', 'forest'],
+  crickets: ['cricket', 'insect', 'night'],
+  water: ['water', 'stream', 'river', 'wave'],
+  traffic: ['traffic', 'car', 'city', 'distant'],
+  crowd: ['crowd', 'talk', 'chat', 'murmur'],
+  siren: ['siren', 'alarm'],
+  hum: ['hum', 'machine', 'fan', 'server'],
+  announcement: ['announcement', 'speaker', 'pa'],
+  clock: ['clock', 'tick'],
 };
 
+export const SFX_VOCABULARY = {
+  thunder: ['thunder', 'explosion', 'boom'],
+  wind: ['wind', 'howl'],
+  creak: ['creak', 'door', 'squeak'],
+  footsteps: ['footstep', 'step', 'walk'],
+  shatter: ['shatter', 'glass', 'crash'],
+  breath: ['breath', 'sigh', 'gasp'],
+  rustle: ['rustle', 'cloth', 'shift'],
+};
+
+const matchesVocabulary = (t: string, words: string[]) => words.some(w => t.includes(w));
+
+const vocabularyPattern = (word: string) => new RegExp(`\\b${word}(s|es|ed|ing|ped|ping)?\\b`, 'i');
+
+// Whole-word lookup for analysis: the group keys whose words appear in a line of text
+export const findVocabulary = <K extends string>(text: string, vocabulary: Record<K, string[]>): K[] =>
+  (Object.keys(vocabulary) as K[]).filter(key => vocabulary[key].some(word => vocabularyPattern(word).test(text)));
+
 // --- Procedural Generation helpers ---
 
 const createNoiseBuffer = (ctx: BaseAudioContext, duration: number = 4) => {
@@ -105,7 +190,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
   const safeDuration = duration + 2; 
 
   // 1. Weather & Nature
-  if (t.includes('wind') || t.includes('breeze') || t.includes('air')) {
+  if (matchesVocabulary(t, AMBIENT_VOCABULARY.wind)) {
     const noise = createNoiseBuffer(ctx, safeDuration);
     const src = ctx.createBufferSource();
     src.buffer = noise;
@@ -124,7 +209,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
     src.connect(filter).connect(gain).connect(destination);
     src.start();
   } 
-  else if (t.includes('bird') || t.includes('chirp') || t.includes('forest')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.birds)) {
     const gain = ctx.createGain();
     gain.gain.value = 0.05;
     gain.connect(destination);
@@ -144,7 +229,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
       osc.stop(time + 0.15);
     }
   }
-  else if (t.includes('cricket') || t.includes('insect') || t.includes('night')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.crickets)) {
     const gain = ctx.createGain();
     gain.gain.value = 0.03;
     gain.connect(destination);
@@ -162,7 +247,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
        osc.stop(time+0.1);
     }
   }
-  else if (t.includes('water') || t.includes('stream') || t.includes('river') || t.includes('wave')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.water)) {
     const noise = createNoiseBuffer(ctx, safeDuration);
     const src = ctx.createBufferSource();
     src.buffer = noise;
@@ -177,7 +262,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
   }
   
   // 2. Urban & Human
-  else if (t.includes('traffic') || t.includes('car') || t.includes('city') || t.includes('distant')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.traffic)) {
     const noise = createNoiseBuffer(ctx, safeDuration);
     const src = ctx.createBufferSource();
     src.buffer = noise;
@@ -196,7 +281,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
     src.connect(filter).connect(gain).connect(destination);
     src.start();
   }
-  else if (t.includes('crowd') || t.includes('talk') || t.includes('chat') || t.includes('murmur')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.crowd)) {
      const noise = createNoiseBuffer(ctx, safeDuration);
      const src = ctx.createBufferSource();
      src.buffer = noise;
@@ -221,7 +306,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
      src.connect(filter).connect(gain).connect(destination);
      src.start();
   }
-  else if (t.includes('siren') || t.includes('alarm')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.siren)) {
       const osc = ctx.createOscillator();
       osc.type = 'sawtooth';
       osc.frequency.setValueAtTime(600, 0);
@@ -233,7 +318,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
   }
 
   // 3. Machinery & Indoor
-  else if (t.includes('hum') || t.includes('machine') || t.includes('fan') || t.includes('server')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.hum)) {
      const osc = ctx.createOscillator();
      osc.frequency.value = 60; 
      const gain = ctx.createGain();
@@ -252,7 +337,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
      nSrc.connect(nFilt).connect(nGain).connect(destination);
      nSrc.start();
   }
-  else if (t.includes('announcement') || t.includes('speaker') || t.includes('pa')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.announcement)) {
      const count = Math.floor(safeDuration / 15); 
      const gain = ctx.createGain();
      gain.gain.value = 0.08;
@@ -275,7 +360,7 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
         src.stop(time+3.5);
      }
   } 
-  else if (t.includes('clock') || t.includes('tick')) {
+  else if (matchesVocabulary(t, AMBIENT_VOCABULARY.clock)) {
       const gain = ctx.createGain();
       gain.gain.value = 0.05;
       gain.connect(destination);
@@ -294,40 +379,51 @@ const synthesizeAmbientLayer = (ctx: BaseAudioContext, keyword: string, duration
   }
 };
 
+// Layers spread out from the centre in the order analysis ranked them
+const AMBIENT_LAYER_PANS = [-0.5, 0.5, -0.8, 0.8];
+
 export const generateAmbience = async (
   duration: number, 
-  ambientSounds: string[] = [] 
+  ambientSounds: string[] = [],
+  channels: number = 1
 ): Promise<AudioBuffer> => {
   const sampleRate = SAMPLE_RATE;
   const loopDuration = Math.min(duration, 32); 
-  const ctx = new OfflineAudioContext(1, Math.floor(sampleRate * loopDuration), sampleRate);
+  const ctx = new OfflineAudioContext(channels, Math.floor(sampleRate * loopDuration), sampleRate);
 
+  // In stereo the bed is two offset (so uncorrelated) copies of the noise, one per side;
+  // uncorrelated sides sum by power, so a mono downmix keeps the same level without phasing
+  const bedSides = channels > 1 ? [-1, 1] : [0];
   const baseNoise = createNoiseBuffer(ctx, loopDuration);
-  const srcBase = ctx.createBufferSource();
-  srcBase.buffer = baseNoise;
-  srcBase.loop = true;
-  const filterBase = ctx.createBiquadFilter();
-  filterBase.type = 'lowpass';
-  filterBase.frequency.value = 150; 
-  const gainBase = ctx.createGain();
-  gainBase.gain.value = 0.12; 
-  srcBase.connect(filterBase).connect(gainBase).connect(ctx.destination);
-  srcBase.start(0);
+  bedSides.forEach((pan, i) => {
+    const srcBase = ctx.createBufferSource();
+    srcBase.buffer = baseNoise;
+    srcBase.loop = true;
+    const filterBase = ctx.createBiquadFilter();
+    filterBase.type = 'lowpass';
+    filterBase.frequency.value = 150; 
+    const gainBase = ctx.createGain();
+    gainBase.gain.value = 0.12 / Math.sqrt(bedSides.length); 
+    srcBase.connect(filterBase).connect(gainBase).connect(panTo(ctx, pan, ctx.destination));
+    srcBase.start(0, (i * loopDuration) / 2);
+  });
 
   const soundsToGen = ambientSounds.slice(0, 4);
-  soundsToGen.forEach(sound => {
-     synthesizeAmbientLayer(ctx, sound, loopDuration, ctx.destination);
+  soundsToGen.forEach((sound, i) => {
+     synthesizeAmbientLayer(ctx, sound, loopDuration, panTo(ctx, AMBIENT_LAYER_PANS[i], ctx.destination));
   });
   
   const buffer = await ctx.startRendering();
 
-  const data = buffer.getChannelData(0);
   const fadeLen = Math.floor(0.1 * sampleRate); 
-  const len = data.length;
-  for(let i=0; i<fadeLen; i++) {
-     const gain = i / fadeLen;
-     data[i] *= gain; 
-     data[len - 1 - i] *= gain; 
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    const len = data.length;
+    for(let i=0; i<fadeLen; i++) {
+       const gain = i / fadeLen;
+       data[i] *= gain; 
+       data[len - 1 - i] *= gain; 
+    }
   }
 
   return buffer;
@@ -350,7 +446,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
        compressor.ratio.value = 4;
        compressor.connect(ctx.destination);
 
-       if (t.includes('thunder') || t.includes('explosion') || t.includes('boom')) {
+       if (matchesVocabulary(t, SFX_VOCABULARY.thunder)) {
           const noise1 = createNoiseBuffer(ctx);
           const src1 = ctx.createBufferSource();
           src1.buffer = noise1;
@@ -364,7 +460,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
           gain1.gain.exponentialRampToValueAtTime(0.01, 3.5); 
           src1.connect(filter1).connect(gain1).connect(compressor);
           src1.start(0);
-       } else if (t.includes('wind') || t.includes('howl')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.wind)) {
           const noise = createNoiseBuffer(ctx);
           const src = ctx.createBufferSource();
           src.buffer = noise;
@@ -381,7 +477,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
           gain.gain.linearRampToValueAtTime(0, 3.5);
           src.connect(filter).connect(gain).connect(compressor);
           src.start(0);
-       } else if (t.includes('creak') || t.includes('door') || t.includes('squeak')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.creak)) {
           const osc = ctx.createOscillator();
           osc.type = 'sawtooth';
           const startFreq = random(130, 170);
@@ -400,7 +496,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
           gain.gain.linearRampToValueAtTime(0, 1.5);
           osc.connect(filter).connect(gain).connect(compressor);
           osc.start(0);
-       } else if (t.includes('footstep') || t.includes('step') || t.includes('walk')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.footsteps)) {
           for(let i=0; i<3; i++) {
             const time = i * random(0.5, 0.65); 
             const noise = createNoiseBuffer(ctx);
@@ -417,7 +513,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
             src.start(time);
             src.stop(time + 0.3);
           }
-       } else if (t.includes('shatter') || t.includes('glass') || t.includes('crash')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.shatter)) {
            const noise = createNoiseBuffer(ctx);
            const src = ctx.createBufferSource();
            src.buffer = noise;
@@ -426,7 +522,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
            gain.gain.exponentialRampToValueAtTime(0.01, 0.3);
            src.connect(gain).connect(compressor);
            src.start(0);
-       } else if (t.includes('breath') || t.includes('sigh') || t.includes('gasp')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.breath)) {
           const noise = createNoiseBuffer(ctx);
           const src = ctx.createBufferSource();
           src.buffer = noise;
@@ -439,7 +535,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
           gain.gain.exponentialRampToValueAtTime(0.001, 0.8);
           src.connect(filter).connect(gain).connect(compressor);
           src.start(0);
-       } else if (t.includes('rustle') || t.includes('cloth') || t.includes('shift')) {
+       } else if (matchesVocabulary(t, SFX_VOCABULARY.rustle)) {
           const noise = createNoiseBuffer(ctx);
           const src = ctx.createBufferSource();
           src.buffer = noise;
@@ -473,6 +569,7 @@ export const generateSFX = async (type: string): Promise<AudioBuffer> => {
    })();
    
    sfxPending.set(cacheKey, task);
+   task.catch(() => sfxPending.delete(cacheKey));
    return task;
 }
 
@@ -633,8 +730,10 @@ const calculateTimings = (voiceBuffers: (Int16Array | null)[], segments: ParsedS
   let currentTime = 0;
   let maxDuration = 0;
   const startTimes: number[] = [];
+  const segmentTimings: SegmentTiming[] = [];
 
   for (let i = 0; i < segments.length; i++) {
+    currentTime += segments[i].pauseBefore ?? 0;
     startTimes.push(currentTime);
     const buf = voiceBuffers[i];
     const rawDur = buf ? buf.length / SAMPLE_RATE : 0;
@@ -643,11 +742,27 @@ const calculateTimings = (voiceBuffers: (Int16Array | null)[], segments: ParsedS
     const audioEnd = currentTime + rawDur;
     if (audioEnd > maxDuration) maxDuration = audioEnd;
 
+    if (contentLen > 0) {
+      segmentTimings.push({
+        id: segments[i].id,
+        start: currentTime,
+        end: currentTime + contentLen,
+        speaker: segments[i].speaker,
+        isNarrator: segments[i].isNarrator,
+        text: segments[i].text
+      });
+    }
+
     currentTime += contentLen;
-    if (contentLen > 0) currentTime += 0.12; 
+    // Segments voiced inside an earlier segment's render follow it with no gap: the aligned
+    // durations already include whatever pause the voice left between them
+    const next = segments[i + 1];
+    const continuesRender = !!next && !voiceBuffers[i + 1] && !!next.speechDuration;
+    if (contentLen > 0 && !continuesRender) currentTime += 0.12; 
+    currentTime += segments[i].pauseAfter ?? 0;
   }
   
-  return { startTimes, totalDuration: maxDuration + 1.0 };
+  return { startTimes, segmentTimings, totalDuration: maxDuration + 1.0 };
 };
 
 // OPTIMIZATION: Write directly to Float32 buffer 
@@ -698,13 +813,18 @@ export const renderSFXTrack = async(
   const sampleRate = SAMPLE_RATE;
   const ctx = new OfflineAudioContext(1, Math.floor(sampleRate * totalDuration), sampleRate);
   
+  // A cue that fails to render is dropped rather than sinking the whole track
   const sfxPromises = segments.map(async (seg, i) => {
      if (seg.sfx) {
-        const buffer = await generateSFX(seg.sfx);
-        const src = ctx.createBufferSource();
-        src.buffer = buffer;
-        src.connect(ctx.destination);
-        src.start(startTimes[i]);
+        try {
+          const buffer = await generateSFX(seg.sfx);
+          const src = ctx.createBufferSource();
+          src.buffer = buffer;
+          src.connect(ctx.destination);
+          src.start(startTimes[i]);
+        } catch (err) {
+          // Silence where the cue would have been
+        }
      }
   });
 
@@ -713,66 +833,282 @@ export const renderSFXTrack = async(
 };
 
 
+const SCENE_CROSSFADE_SECONDS = 2;
+
+// Tiles each region's loop across its stretch of the timeline and crossfades (equal power) where
+// regions meet. A single region keeps its short loop, which the mix graph loops on its own.
+const layoutSceneTrack = (regions: { start: number, end: number, buffer: AudioBuffer }[], totalDuration: number): AudioBuffer => {
+  if (regions.length === 1) return regions[0].buffer;
+  const sampleRate = regions[0].buffer.sampleRate;
+  const channels = Math.max(...regions.map(r => r.buffer.numberOfChannels));
+  const length = Math.ceil(totalDuration * sampleRate);
+  const out = new AudioBuffer({ length, numberOfChannels: channels, sampleRate });
+  const half = Math.floor((SCENE_CROSSFADE_SECONDS / 2) * sampleRate);
+
+  regions.forEach((region, r) => {
+    const regionStart = Math.floor(region.start * sampleRate);
+    const regionEnd = Math.min(length, Math.floor(region.end * sampleRate));
+    const from = r === 0 ? 0 : Math.max(0, regionStart - half);
+    const to = r === regions.length - 1 ? length : Math.min(length, regionEnd + half);
+    for (let c = 0; c < channels; c++) {
+      const src = region.buffer.getChannelData(Math.min(c, region.buffer.numberOfChannels - 1));
+      const dst = out.getChannelData(c);
+      for (let i = from; i < to; i++) {
+        const fadeIn = r > 0 && i < regionStart + half ? Math.sin(((i - (regionStart - half)) / (2 * half)) * Math.PI / 2) : 1;
+        const fadeOut = r < regions.length - 1 && i > regionEnd - half ? Math.cos(((i - (regionEnd - half)) / (2 * half)) * Math.PI / 2) : 1;
+        dst[i] += src[(i - from) % src.length] * fadeIn * fadeOut;
+      }
+    }
+  });
+  return out;
+};
+
 export const generateTrackBuffers = async (
   voiceBuffers: (Int16Array | null)[],
   segments: ParsedSegment[],
-  scene: SceneContext
-): Promise<{ dialogue: AudioBuffer, score: AudioBuffer, ambience: AudioBuffer, sfx: AudioBuffer, duration: number }> => {
+  scenes: SceneContext[],
+  profiles: CharacterProfile[] = [],
+  stereo: boolean = true,
+  impulses: CustomImpulse[] = []
+): Promise<AudioTracks> => {
 
   const timing = calculateTimings(voiceBuffers, segments);
-  const totalDuration = timing.totalDuration;
-  const totalSamples = Math.ceil(totalDuration * SAMPLE_RATE);
-
-  // OPTIMIZATION: Create reverb OAC directly for the whole dialogue track
-  // Avoids allocating an intermediate Float32Array for 'dry' dialogue
-  const ctx = new OfflineAudioContext(1, totalSamples + (SAMPLE_RATE * 1.5), SAMPLE_RATE);
-  
-  // 1. Stitch Character (Dry) DIRECTLY into the convolver input buffer
-  const dryBuffer = ctx.createBuffer(1, totalSamples, SAMPLE_RATE);
-  const dryData = dryBuffer.getChannelData(0);
-  stitchToBuffer(dryData, voiceBuffers, timing.startTimes, segments, 'character', 'replace');
+  const channels = stereo ? 2 : 1;
 
-  // 2. Setup Reverb Graph using the pre-filled buffer
-  const source = ctx.createBufferSource();
-  source.buffer = dryBuffer;
+  const sceneIds = segmentSceneIds(segments, scenes);
+  const reverbs = new Map(scenes.map(scene => [scene.id, sceneReverb(scene, impulses)]));
+  // The timeline runs on until the longest tail in play has died away after the last line. Every
+  // track is laid out to it, and the mixdown is sized from it, so no export clips the tail.
+  const longestTail = [...new Set(reverbs.values())]
+    .reduce((max, id) => Math.max(max, getImpulseResponse(id, SAMPLE_RATE, channels, impulses).duration), 0);
+  const lastLineEnd = timing.segmentTimings.reduce((max, t) => Math.max(max, t.end), 0);
+  const totalDuration = Math.max(timing.totalDuration, lastLineEnd + longestTail);
 
-  const convolver = ctx.createConvolver();
-  convolver.buffer = getImpulseResponse(ctx, 1.5, 3.0); 
-  convolver.normalize = true;
+  const ctx = new OfflineAudioContext(channels, Math.ceil(totalDuration * SAMPLE_RATE), SAMPLE_RATE);
 
-  const dryGain = ctx.createGain();
-  const wetGain = ctx.createGain();
+  // 1. One convolver per room in use, shared by every character speaking in it. A line's tail
+  // keeps ringing in its own room after the next scene starts.
+  const rooms = new Map<string, ConvolverNode>();
+  const roomFor = (reverb: string) => {
+    if (rooms.has(reverb)) return rooms.get(reverb)!;
+    const convolver = ctx.createConvolver();
+    convolver.normalize = true;
+    convolver.buffer = getImpulseResponse(reverb, ctx.sampleRate, channels, impulses);
+    convolver.connect(ctx.destination);
+    rooms.set(reverb, convolver);
+    return convolver;
+  };
 
-  dryGain.gain.value = 0.9; // 1 - mix (mix=0.1)
-  wetGain.gain.value = 0.1;
+  // 2. One chain per character and room: distance sets level, tone and send, then pan places the result
+  const chains = new Map<string, AudioNode>();
+  const chainFor = (speaker: string, reverb: string) => {
+    const key = `${speaker}|${reverb}`;
+    if (chains.has(key)) return chains.get(key)!;
+    const profile = profiles.find(p => p.name === speaker);
+    const { gain, cutoff, send } = distanceSettings(profile?.distance);
+    const input = ctx.createGain();
+    input.gain.value = gain;
+    const lowpass = ctx.createBiquadFilter();
+    lowpass.type = 'lowpass';
+    lowpass.frequency.value = cutoff;
+    const placed = ctx.createGain();
+    const dryGain = ctx.createGain();
+    dryGain.gain.value = 0.9;
+    const sendGain = ctx.createGain();
+    sendGain.gain.value = send * reverbWet(reverb);
+    input.connect(lowpass).connect(panTo(ctx, profile?.pan ?? 0, placed));
+    placed.connect(dryGain).connect(ctx.destination);
+    placed.connect(sendGain).connect(roomFor(reverb));
+    chains.set(key, input);
+    return input;
+  };
 
-  source.connect(dryGain);
-  source.connect(convolver);
-  convolver.connect(wetGain);
-  
-  dryGain.connect(ctx.destination);
-  wetGain.connect(ctx.destination);
-  source.start();
+  segments.forEach((seg, i) => {
+    const buf = voiceBuffers[i];
+    if (!buf || seg.isNarrator) return;
+    const src = ctx.createBufferSource();
+    src.buffer = int16ToAudioBuffer(ctx, buf);
+    src.connect(chainFor(seg.speaker, reverbs.get(sceneIds[i]) ?? 'small_room'));
+    src.start(timing.startTimes[i]);
+  });
   
-  // 3. Render Reverb
+  // 3. Render characters with their room
   const reverbBuffer = await ctx.startRendering();
   
-  // 4. Stitch Narrator directly into the Reverb Output (mixing it in)
-  const dialogueChannel = reverbBuffer.getChannelData(0);
-  stitchToBuffer(dialogueChannel, voiceBuffers, timing.startTimes, segments, 'narrator', 'add');
-
-  // 5. Parallel Gen
-  const [mixedAmbience, score, sfx] = await Promise.all([
-    generateAmbience(totalDuration, scene.ambientSounds), 
-    generateAdvancedScore(totalDuration, scene.scoreStyle),
+  // 4. Narrator stays dry and dead centre: stitched straight into every channel
+  for (let c = 0; c < reverbBuffer.numberOfChannels; c++) {
+    stitchToBuffer(reverbBuffer.getChannelData(c), voiceBuffers, timing.startTimes, segments, 'narrator', 'add');
+  }
+
+  // 5. Parallel Gen: ambience and score per scene region, then laid end to end
+  const regions = sceneRegions(segments, scenes, timing.startTimes, totalDuration);
+  const [ambienceLoops, scoreLoops, sfx] = await Promise.all([
+    Promise.all(regions.map(r => generateAmbience(Math.max(1, r.end - r.start), r.scene.ambientSounds, channels))),
+    Promise.all(regions.map(r => generateAdvancedScore(Math.max(1, r.end - r.start), r.scene.scoreStyle))),
     renderSFXTrack(totalDuration, segments, timing.startTimes)
   ]);
+  const mixedAmbience = layoutSceneTrack(regions.map((r, i) => ({ ...r, buffer: ambienceLoops[i] })), totalDuration);
+  const score = layoutSceneTrack(regions.map((r, i) => ({ ...r, buffer: scoreLoops[i] })), totalDuration);
 
   return {
     dialogue: reverbBuffer,
     score,
     ambience: mixedAmbience,
     sfx,
-    duration: totalDuration
+    duration: totalDuration,
+    timings: timing.segmentTimings
   };
-};
\ No newline at end of file
+};
+
+// --- Mixing ---
+
+export interface MixGraph {
+  sources: Record<TrackKey, AudioBufferSourceNode>;
+  gains: Record<TrackKey, GainNode>;
+  ducks: GainNode[]; // Between the score/ambience sources and their level gains
+  timings: SegmentTiming[];
+  ducking: DuckingSettings;
+  playbackRate: number;
+}
+
+export const DEFAULT_DUCKING: DuckingSettings = { enabled: true, depthDb: 8, attack: 0.15, release: 0.6 };
+
+export const DUCKED_TRACKS: TrackKey[] = ['score', 'ambience'];
+
+// Gain points on the timeline. Lines closer together than a full duck-and-recover stay ducked
+// through the gap instead of pumping; each dip starts `attack` early so words never land on it.
+export const duckingEnvelope = (timings: SegmentTiming[], settings: DuckingSettings): { time: number, gain: number }[] => {
+  if (!settings.enabled || settings.depthDb <= 0) return [];
+  const floor = Math.pow(10, -settings.depthDb / 20);
+  const spans: { start: number, end: number }[] = [];
+  [...timings].sort((a, b) => a.start - b.start).forEach(t => {
+    const last = spans[spans.length - 1];
+    if (last && t.start - last.end < settings.attack + settings.release) last.end = Math.max(last.end, t.end);
+    else spans.push({ start: t.start, end: t.end });
+  });
+  return spans.flatMap(span => [
+    { time: Math.max(0, span.start - settings.attack), gain: 1 },
+    { time: span.start, gain: floor },
+    { time: span.end, gain: floor },
+    { time: span.end + settings.release, gain: 1 }
+  ]);
+};
+
+const envelopeAt = (points: { time: number, gain: number }[], time: number) => {
+  const next = points.findIndex(p => p.time > time);
+  if (next === -1) return points.length > 0 ? points[points.length - 1].gain : 1;
+  if (next === 0) return 1;
+  const a = points[next - 1], b = points[next];
+  return a.gain + (b.gain - a.gain) * ((time - a.time) / Math.max(1e-6, b.time - a.time));
+};
+
+// (Re)writes the duck automation for playback that is at timeline `offset` at context time `when`.
+// Safe to call mid-playback after the rate or settings change.
+export const scheduleDucking = (graph: MixGraph, when: number, offset: number) => {
+  const points = duckingEnvelope(graph.timings, graph.ducking);
+  const toContextTime = (time: number) => when + (time - offset) / graph.playbackRate;
+  graph.ducks.forEach(duck => {
+    duck.gain.cancelScheduledValues(0);
+    duck.gain.setValueAtTime(envelopeAt(points, offset), when);
+    points.forEach(p => {
+      if (p.time > offset) duck.gain.linearRampToValueAtTime(p.gain, toContextTime(p.time));
+    });
+  });
+};
+
+// Shared by live playback and offline export so both hear exactly the same mix
+export const createMixGraph = (
+  ctx: BaseAudioContext,
+  tracks: AudioTracks,
+  levels: MixLevels,
+  playbackRate: number = 1,
+  ducking: DuckingSettings = DEFAULT_DUCKING
+): MixGraph => {
+  const masterGain = ctx.createGain();
+  const compressor = ctx.createDynamicsCompressor();
+  masterGain.connect(compressor).connect(ctx.destination);
+
+  const keys: TrackKey[] = ['dialogue', 'score', 'ambience', 'sfx'];
+  const gains = {} as Record<TrackKey, GainNode>;
+  const sources = {} as Record<TrackKey, AudioBufferSourceNode>;
+  const ducks: GainNode[] = [];
+
+  keys.forEach(key => {
+    const gain = ctx.createGain();
+    gain.gain.value = levels[key];
+    gain.connect(masterGain);
+    const src = ctx.createBufferSource();
+    src.buffer = tracks[key];
+    src.loop = key === 'score' || key === 'ambience';
+    src.playbackRate.value = playbackRate;
+    if (DUCKED_TRACKS.includes(key)) {
+      const duck = ctx.createGain();
+      src.connect(duck).connect(gain);
+      ducks.push(duck);
+    } else {
+      src.connect(gain);
+    }
+    gains[key] = gain;
+    sources[key] = src;
+  });
+
+  return { sources, gains, ducks, timings: tracks.timings, ducking, playbackRate };
+};
+
+export const startMixGraph = (graph: MixGraph, when: number, offset: number) => {
+  (Object.values(graph.sources) as AudioBufferSourceNode[]).forEach(src => {
+    const loopOffset = src.loop ? offset % (src.buffer?.duration || 1) : offset;
+    src.start(when, loopOffset);
+  });
+  scheduleDucking(graph, when, offset);
+};
+
+export const renderMixdown = async (tracks: AudioTracks, levels: MixLevels, ducking: DuckingSettings = DEFAULT_DUCKING): Promise<AudioBuffer> => {
+  const channels = Math.max(tracks.dialogue.numberOfChannels, tracks.ambience.numberOfChannels);
+  const ctx = new OfflineAudioContext(channels, Math.ceil(tracks.duration * SAMPLE_RATE), SAMPLE_RATE);
+  const graph = createMixGraph(ctx, tracks, levels, 1, ducking);
+  startMixGraph(graph, 0, 0);
+  return ctx.startRendering();
+};
+
+// Bakes the duck envelope into a full-length stem (in place), so exported stems dip exactly as the
+// mix graph's automation does
+export const applyDucking = (buffer: AudioBuffer, timings: SegmentTiming[], settings: DuckingSettings): AudioBuffer => {
+  const points = duckingEnvelope(timings, settings);
+  if (points.length === 0) return buffer;
+  const sampleRate = buffer.sampleRate;
+  const gain = new Float32Array(buffer.length).fill(1);
+  for (let k = 0; k + 1 < points.length; k++) {
+    const a = points[k], b = points[k + 1];
+    if (a.gain === 1 && b.gain === 1) continue;
+    const from = Math.max(0, Math.floor(a.time * sampleRate));
+    const to = Math.min(buffer.length, Math.ceil(b.time * sampleRate));
+    const span = Math.max(1e-6, b.time - a.time);
+    for (let i = from; i < to; i++) {
+      gain[i] = a.gain + (b.gain - a.gain) * Math.min(1, Math.max(0, (i / sampleRate - a.time) / span));
+    }
+  }
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) data[i] *= gain[i];
+  }
+  return buffer;
+};
+
+// Loops (score/ambience) are tiled out to full length so every stem lines up sample-for-sample
+export const expandTrack = (buffer: AudioBuffer, duration: number, loop: boolean): AudioBuffer => {
+  const length = Math.ceil(duration * buffer.sampleRate);
+  const out = new AudioBuffer({ length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const src = buffer.getChannelData(c);
+    const dst = out.getChannelData(c);
+    if (!loop) {
+      dst.set(src.subarray(0, Math.min(src.length, length)));
+      continue;
+    }
+    for (let offset = 0; offset < length; offset += src.length) {
+      dst.set(src.subarray(0, Math.min(src.length, length - offset)), offset);
+    }
+  }
+  return out;
+};
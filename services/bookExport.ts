@@ -0,0 +1,172 @@
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { Book, BookMetadata, ExportFormat } from "../types";
+import { encodeMP3, encodeWAVData } from './audioEncoder';
+import { downloadBlob, slugify } from './exportService';
+
+// Browsers ship no AAC encoder + MP4 muxer we can rely on, so instead of M4B we produce
+// a single MP3 carrying ID3v2 CHAP/CTOC chapter frames (read by most audiobook and podcast
+// players) or a WAV, and always add a cue sheet alongside for tools that ignore ID3.
+
+const CHAPTER_GAP = 1.5; // seconds of silence between chapters
+
+export interface ChapterMarker {
+  title: string;
+  start: number;
+  end: number;
+}
+
+export const concatenateChapters = (book: Book): { buffer: AudioBuffer, markers: ChapterMarker[] } => {
+  const { chapters } = book;
+  if (chapters.length === 0) throw new Error("Book has no chapters");
+
+  const sampleRate = chapters[0].mix.sampleRate;
+  const channels = Math.max(...chapters.map(c => c.mix.numberOfChannels));
+  const gapSamples = Math.floor(CHAPTER_GAP * sampleRate);
+  const length = chapters.reduce((acc, c) => acc + c.mix.length, 0) + gapSamples * (chapters.length - 1);
+  const buffer = new AudioBuffer({ length, numberOfChannels: channels, sampleRate });
+
+  const markers: ChapterMarker[] = [];
+  let offset = 0;
+  chapters.forEach((chapter, i) => {
+    for (let c = 0; c < channels; c++) {
+      // Mono chapters are duplicated into every channel of a wider book
+      const src = chapter.mix.getChannelData(Math.min(c, chapter.mix.numberOfChannels - 1));
+      buffer.getChannelData(c).set(src, offset);
+    }
+    const start = offset / sampleRate;
+    offset += chapter.mix.length;
+    markers.push({ title: chapter.title, start, end: offset / sampleRate });
+    if (i < chapters.length - 1) offset += gapSamples;
+  });
+
+  return { buffer, markers };
+};
+
+// --- Cue sheet ---
+
+const cueTime = (seconds: number) => {
+  const totalFrames = Math.round(seconds * 75); // CD frames
+  const mm = Math.floor(totalFrames / (75 * 60));
+  const ss = Math.floor(totalFrames / 75) % 60;
+  const ff = totalFrames % 75;
+  return [mm, ss, ff].map(v => String(v).padStart(2, '0')).join(':');
+};
+
+const cueQuote = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+export const buildCueSheet = (metadata: BookMetadata, fileName: string, format: ExportFormat, markers: ChapterMarker[]) => {
+  const lines = [
+    `PERFORMER ${cueQuote(metadata.author)}`,
+    `TITLE ${cueQuote(metadata.title)}`,
+    `FILE ${cueQuote(fileName)} ${format === 'mp3' ? 'MP3' : 'WAVE'}`
+  ];
+  markers.forEach((marker, i) => {
+    lines.push(`  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${cueQuote(marker.title)}`);
+    lines.push(`    PERFORMER ${cueQuote(metadata.author)}`);
+    lines.push(`    INDEX 01 ${cueTime(marker.start)}`);
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+// --- ID3v2.4 ---
+
+const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const syncsafe = (value: number) => new Uint8Array([
+  (value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f
+]);
+
+const uint32 = (value: number) => new Uint8Array([
+  (value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff
+]);
+
+const latin1 = (value: string) => Uint8Array.from(value, ch => ch.charCodeAt(0) & 0xff);
+
+const frame = (id: string, body: Uint8Array) =>
+  concatBytes([latin1(id), syncsafe(body.length), new Uint8Array([0, 0]), body]);
+
+const UTF8 = 0x03;
+
+const textFrame = (id: string, value: string) =>
+  frame(id, concatBytes([new Uint8Array([UTF8]), strToU8(value)]));
+
+const chapterFrame = (elementId: string, marker: ChapterMarker) => frame('CHAP', concatBytes([
+  latin1(elementId), new Uint8Array([0]),
+  uint32(Math.round(marker.start * 1000)),
+  uint32(Math.round(marker.end * 1000)),
+  uint32(0xffffffff), // byte offsets unused, times are authoritative
+  uint32(0xffffffff),
+  textFrame('TIT2', marker.title)
+]));
+
+const tocFrame = (elementIds: string[]) => frame('CTOC', concatBytes([
+  latin1('toc'), new Uint8Array([0]),
+  new Uint8Array([0x03, elementIds.length]), // top-level + ordered
+  ...elementIds.map(id => concatBytes([latin1(id), new Uint8Array([0])]))
+]));
+
+const coverFrame = (metadata: BookMetadata) => {
+  const cover = metadata.cover!;
+  return frame('APIC', concatBytes([
+    new Uint8Array([UTF8]),
+    latin1(cover.mimeType), new Uint8Array([0]),
+    new Uint8Array([0x03]), // front cover
+    new Uint8Array([0]), // empty description
+    cover.data
+  ]));
+};
+
+export const buildID3Tag = (metadata: BookMetadata, markers: ChapterMarker[]): Uint8Array => {
+  // CTOC stores its entry count in a single byte
+  const chapterMarkers = markers.slice(0, 255);
+  const elementIds = chapterMarkers.map((_, i) => `ch${i}`);
+  const frames = [
+    textFrame('TIT2', metadata.title),
+    textFrame('TALB', metadata.title),
+    textFrame('TPE1', metadata.author),
+    textFrame('TCON', 'Audiobook'),
+    ...(metadata.cover ? [coverFrame(metadata)] : []),
+    tocFrame(elementIds),
+    ...chapterMarkers.map((marker, i) => chapterFrame(elementIds[i], marker))
+  ];
+  const body = concatBytes(frames);
+  const header = concatBytes([latin1('ID3'), new Uint8Array([0x04, 0x00, 0x00]), syncsafe(body.length)]);
+  return concatBytes([header, body]);
+};
+
+const coverExtension = (mimeType: string) => mimeType.includes('png') ? 'png' : 'jpg';
+
+export const exportBook = async (book: Book, format: ExportFormat): Promise<void> => {
+  const { metadata } = book;
+  const slug = slugify(metadata.title, 'audiobook');
+  const { buffer, markers } = concatenateChapters(book);
+  const audioName = `${slug}.${format}`;
+
+  const audio = format === 'mp3'
+    ? concatBytes([buildID3Tag(metadata, markers), new Uint8Array(await encodeMP3(buffer).arrayBuffer())])
+    : encodeWAVData(buffer);
+
+  const files: Zippable = {
+    [audioName]: [audio, { level: 0 }],
+    [`${slug}.cue`]: strToU8(buildCueSheet(metadata, audioName, format, markers)),
+    'book.json': strToU8(JSON.stringify({
+      title: metadata.title,
+      author: metadata.author,
+      duration: buffer.duration,
+      sampleRate: buffer.sampleRate,
+      chapters: markers.map((m, i) => ({ ...m, location: book.chapters[i].scene.location }))
+    }, null, 2))
+  };
+  if (metadata.cover) {
+    files[`cover.${coverExtension(metadata.cover.mimeType)}`] = [metadata.cover.data, { level: 0 }];
+  }
+
+  const archive = zipSync(files);
+  downloadBlob(new Blob([archive as BlobPart], { type: 'application/zip' }), `${slug}-audiobook.zip`);
+};
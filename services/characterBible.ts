@@ -0,0 +1,138 @@
+import { CharacterBibleEntry, CharacterProfile, VoiceOption } from "../types";
+import { downloadBlob, slugify } from './exportService';
+
+// Series-wide casting memory: once a character has a voice, every later chapter reuses it.
+
+const STORAGE_KEY = 'voxnovel.characterBible';
+const BIBLE_VERSION = 1;
+
+interface BibleFile {
+  version: number;
+  characters: CharacterBibleEntry[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const isGender = (value: unknown): value is CharacterProfile['gender'] =>
+  value === 'male' || value === 'female' || value === 'neutral';
+
+const sanitizeEntries = (value: unknown): CharacterBibleEntry[] => {
+  const list = Array.isArray(value) ? value : (value as BibleFile | null)?.characters;
+  if (!Array.isArray(list)) throw new Error('Not a character bible');
+  return list
+    .filter((e): e is CharacterBibleEntry => e && typeof e.name === 'string' && e.name.trim() && typeof e.voiceId === 'string')
+    .map(e => ({
+      name: e.name.trim(),
+      gender: isGender(e.gender) ? e.gender : 'neutral',
+      voiceId: e.voiceId,
+      aliases: Array.isArray(e.aliases) ? e.aliases.filter((a: unknown): a is string => typeof a === 'string') : [],
+      notes: typeof e.notes === 'string' ? e.notes : ''
+    }));
+};
+
+export const loadBible = (): CharacterBibleEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? sanitizeEntries(JSON.parse(raw)) : [];
+  } catch (err) {
+    // An unreadable bible starts fresh rather than blocking the app
+    return [];
+  }
+};
+
+export const saveBible = (bible: CharacterBibleEntry[]) => {
+  const file: BibleFile = { version: BIBLE_VERSION, characters: bible };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+};
+
+export const findBibleEntry = (bible: CharacterBibleEntry[], name: string) => {
+  const key = normalizeName(name);
+  return bible.find(e => normalizeName(e.name) === key || e.aliases.some(a => normalizeName(a) === key));
+};
+
+export const upsertBibleEntry = (bible: CharacterBibleEntry[], entry: CharacterBibleEntry): CharacterBibleEntry[] => {
+  const existing = findBibleEntry(bible, entry.name);
+  return existing ? bible.map(e => e === existing ? { ...existing, ...entry, name: existing.name } : e) : [...bible, entry];
+};
+
+// FNV-1a: stable across sessions and browsers, unlike Math.random
+const hashName = (name: string) => {
+  let hash = 0x811c9dc5;
+  const key = normalizeName(name);
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Walks the gender-matched pool from a name-derived start, preferring the least-used voice,
+// so the same cast always lands on the same voices and nobody doubles up while voices remain.
+export const assignVoice = (
+  name: string,
+  gender: CharacterProfile['gender'],
+  voices: VoiceOption[],
+  usage: Map<string, number>,
+  reserved: string[] = []
+): string => {
+  const matching = voices.filter(v => gender === 'neutral' || v.gender === gender);
+  const unreserved = matching.filter(v => !reserved.includes(v.id));
+  const pool = unreserved.length > 0 ? unreserved : matching.length > 0 ? matching : voices;
+  const start = hashName(name) % pool.length;
+  let best = pool[start];
+  for (let i = 1; i < pool.length; i++) {
+    const candidate = pool[(start + i) % pool.length];
+    if ((usage.get(candidate.id) ?? 0) < (usage.get(best.id) ?? 0)) best = candidate;
+  }
+  return best.id;
+};
+
+interface CastRequest {
+  name: string;
+  gender: CharacterProfile['gender'];
+}
+
+// Known characters keep their bible voice; new ones are assigned and recorded in the returned bible
+export const castFromBible = (
+  characters: CastRequest[],
+  bible: CharacterBibleEntry[],
+  voices: VoiceOption[],
+  reserved: string[] = []
+): { profiles: CharacterProfile[], bible: CharacterBibleEntry[] } => {
+  const usage = new Map<string, number>();
+  const use = (voiceId: string) => usage.set(voiceId, (usage.get(voiceId) ?? 0) + 1);
+  reserved.forEach(use);
+
+  const profiles: (CharacterProfile | null)[] = characters.map(({ name }) => {
+    const entry = findBibleEntry(bible, name);
+    if (!entry || !voices.some(v => v.id === entry.voiceId)) return null;
+    use(entry.voiceId);
+    return { name, gender: entry.gender, voiceId: entry.voiceId, notes: entry.notes || undefined };
+  });
+
+  let nextBible = bible;
+  const cast = characters.map((character, i) => {
+    const known = profiles[i];
+    if (known) return known;
+    const existing = findBibleEntry(nextBible, character.name);
+    const gender = existing?.gender ?? character.gender;
+    const voiceId = assignVoice(character.name, gender, voices, usage, reserved);
+    use(voiceId);
+    // Entries whose voice the current provider lacks are recast for this project but left as written
+    if (!existing) nextBible = [...nextBible, { name: character.name, gender, voiceId, aliases: [], notes: '' }];
+    return { name: character.name, gender, voiceId, notes: existing?.notes || undefined };
+  });
+
+  return { profiles: cast, bible: nextBible };
+};
+
+export const exportBible = (bible: CharacterBibleEntry[], title: string) => {
+  const file: BibleFile = { version: BIBLE_VERSION, characters: bible };
+  downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `${slugify(title, 'voxnovel')}-characters.json`);
+};
+
+// Imported entries win over existing ones with the same name or alias
+export const importBible = async (file: File, bible: CharacterBibleEntry[]): Promise<CharacterBibleEntry[]> => {
+  const entries = sanitizeEntries(JSON.parse(await file.text()));
+  return entries.reduce(upsertBibleEntry, bible);
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedSegment } from '../types';
+import { analyzeTextLocally } from './localAnalyzer';
+import { applySpeakerGroups, resolveSpeakers, splitSpeakerVariant } from './characterResolver';
+
+let counter = 0;
+const line = (speaker: string, gender: ParsedSegment['gender'] = 'neutral', extra: Partial<ParsedSegment> = {}): ParsedSegment => ({
+  id: `s${counter++}`, text: 'Hello.', originalText: 'Hello.', speaker, isNarrator: false, gender, emotion: 'neutral', ...extra
+});
+
+const groupsOf = (segments: ParsedSegment[]) =>
+  Object.fromEntries(resolveSpeakers(segments).map(g => [g.canonical, [...g.variants].sort()]));
+
+describe('resolveSpeakers', () => {
+  it('folds a first name and a matching titled surname into the full name', () => {
+    expect(groupsOf([line('Sarah Jenkins', 'female'), line('Sarah'), line('Miss Jenkins')]))
+      .toEqual({ 'Sarah Jenkins': ['Miss Jenkins', 'Sarah', 'Sarah Jenkins'] });
+  });
+
+  it('keeps a titled surname apart from a full name of unknown gender', () => {
+    const { segments } = analyzeTextLocally('"Hello," said Mr. Jenkins.\n\n"Good," Sarah Jenkins replied.');
+    expect(groupsOf(segments)).toEqual({ 'Mr Jenkins': ['Mr Jenkins'], 'Sarah Jenkins': ['Sarah Jenkins'] });
+  });
+
+  it('keeps a titled surname apart from a full name of the other gender', () => {
+    expect(groupsOf([line('Sarah Jenkins', 'female'), line('Mr Jenkins')]))
+      .toEqual({ 'Sarah Jenkins': ['Sarah Jenkins'], 'Mr Jenkins': ['Mr Jenkins'] });
+  });
+
+  it('takes the gender of a full name from the speaker going by its first name', () => {
+    expect(groupsOf([line('Sarah Jenkins'), line('Sarah', 'female'), line('Mrs Jenkins')]))
+      .toEqual({ 'Sarah Jenkins': ['Mrs Jenkins', 'Sarah', 'Sarah Jenkins'] });
+  });
+
+  it('leaves a titled surname alone when two full names match it', () => {
+    const groups = groupsOf([line('Tom Jenkins', 'male'), line('Bill Jenkins', 'male'), line('Mr Jenkins')]);
+    expect(groups['Mr Jenkins']).toEqual(['Mr Jenkins']);
+  });
+
+  it('leaves a bare surname alone when two full names share it', () => {
+    const groups = groupsOf([line('Sarah Jenkins', 'female'), line('Tom Jenkins', 'male'), line('Jenkins')]);
+    expect(groups['Jenkins']).toEqual(['Jenkins']);
+  });
+
+  it('follows the character bible before any heuristic', () => {
+    const groups = resolveSpeakers([line('The Captain')], [{ name: 'Ahab', gender: 'male', voiceId: 'Puck', aliases: ['The Captain'], notes: '' }]);
+    expect(groups).toEqual([{ canonical: 'Ahab', variants: ['The Captain'], confirmed: false }]);
+  });
+});
+
+describe('applySpeakerGroups and splitSpeakerVariant', () => {
+  it('renames merged lines and hands a split variant its lines back', () => {
+    const segments = [line('Sarah Jenkins', 'female'), line('Sarah')];
+    const groups = resolveSpeakers(segments);
+    const merged = applySpeakerGroups(segments, groups);
+    expect(merged.map(s => [s.speaker, s.originalSpeaker, s.gender]))
+      .toEqual([['Sarah Jenkins', 'Sarah Jenkins', 'female'], ['Sarah Jenkins', 'Sarah', 'female']]);
+
+    const split = splitSpeakerVariant(merged, groups, 'Sarah Jenkins', 'Sarah');
+    expect(split.segments.map(s => s.speaker)).toEqual(['Sarah Jenkins', 'Sarah']);
+    expect(split.groups).toContainEqual({ canonical: 'Sarah', variants: ['Sarah'], confirmed: true });
+  });
+});
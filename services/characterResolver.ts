@@ -0,0 +1,160 @@
+import { CharacterBibleEntry, ParsedSegment, SpeakerGroup } from "../types";
+import { findBibleEntry } from './characterBible';
+
+// Groups speaker variants ("Sarah", "Sarah Jenkins", "Miss Jenkins") into one character. Evidence, in
+// order of trust: the character bible's aliases, the model's canonicalSpeaker hint, then name heuristics.
+
+type Gender = ParsedSegment['gender'];
+
+const TITLE_GENDERS: Record<string, Gender> = {
+  mr: 'male', mister: 'male', sir: 'male', lord: 'male', uncle: 'male', master: 'male', father: 'male',
+  mrs: 'female', ms: 'female', miss: 'female', madam: 'female', lady: 'female', aunt: 'female', mother: 'female',
+  dr: 'neutral', doctor: 'neutral', captain: 'neutral', professor: 'neutral', detective: 'neutral', officer: 'neutral'
+};
+
+const words = (name: string) => name.toLowerCase().replace(/[^\p{L}\p{N}\s'-]/gu, ' ').split(/\s+/).filter(Boolean);
+
+const nameTokens = (name: string) => words(name).filter(w => !(w in TITLE_GENDERS));
+
+const titleGender = (name: string): Gender =>
+  words(name).map(w => TITLE_GENDERS[w]).find(g => g && g !== 'neutral') ?? 'neutral';
+
+const compatible = (a: Gender, b: Gender) => a === 'neutral' || b === 'neutral' || a === b;
+
+const rawSpeaker = (seg: ParsedSegment) => seg.originalSpeaker ?? seg.speaker;
+
+const majority = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+  let best: T | undefined;
+  counts.forEach((count, value) => { if (best === undefined || count > counts.get(best)!) best = value; });
+  return best;
+};
+
+interface SpeakerInfo {
+  name: string;
+  tokens: string[];
+  gender: Gender;
+  hint?: string;
+}
+
+const collectSpeakers = (segments: ParsedSegment[]): SpeakerInfo[] => {
+  const byName = new Map<string, ParsedSegment[]>();
+  segments.filter(s => !s.isNarrator && s.speaker.trim()).forEach(s => {
+    const name = rawSpeaker(s);
+    byName.set(name, [...(byName.get(name) ?? []), s]);
+  });
+  return [...byName.entries()].map(([name, segs]) => {
+    const spoken = majority(segs.map(s => s.gender).filter(g => g !== 'neutral'));
+    const hint = majority(segs.map(s => s.canonicalSpeaker?.trim()).filter((h): h is string => !!h && h !== 'Narrator'));
+    return { name, tokens: nameTokens(name), gender: titleGender(name) !== 'neutral' ? titleGender(name) : spoken ?? 'neutral', hint };
+  });
+};
+
+// A full name's own evidence, else that of the speaker going by its first name alone ("Sarah")
+const firstNameGender = (candidate: SpeakerInfo, speakers: SpeakerInfo[]): Gender =>
+  candidate.gender !== 'neutral'
+    ? candidate.gender
+    : speakers.find(s => s.tokens.length === 1 && s.tokens[0] === candidate.tokens[0] && s.gender !== 'neutral')?.gender ?? 'neutral';
+
+// A variant belongs to a fuller name when its name tokens are a strict subset of that name's.
+// Two unrelated fuller names ("Sarah Jenkins", "Tom Jenkins" for "Jenkins") make it ambiguous.
+const heuristicParent = (speaker: SpeakerInfo, speakers: SpeakerInfo[]): string | null => {
+  if (speaker.tokens.length === 0) return null;
+  // "Mr Jenkins" says he is male; a full name that says nothing about its gender is no match
+  const titled = titleGender(speaker.name) !== 'neutral';
+  const candidates = speakers.filter(c =>
+    c !== speaker &&
+    c.tokens.length > speaker.tokens.length &&
+    speaker.tokens.every(t => c.tokens.includes(t)) &&
+    (titled ? firstNameGender(c, speakers) === speaker.gender : compatible(c.gender, speaker.gender)));
+  if (candidates.length === 0) return null;
+  // A titled surname only joins the one full name it matches; more than one stays apart
+  if (titled) return candidates.length === 1 ? candidates[0].name : null;
+  const fullest = candidates.reduce((a, b) => b.tokens.length > a.tokens.length ? b : a);
+  const consistent = candidates.every(c => c.tokens.every(t => fullest.tokens.includes(t)));
+  return consistent ? fullest.name : null;
+};
+
+export const resolveSpeakers = (segments: ParsedSegment[], bible: CharacterBibleEntry[] = []): SpeakerGroup[] => {
+  const speakers = collectSpeakers(segments);
+  const parent = new Map<string, string>();
+
+  // Hinted full names count as known characters even if never attributed, so "Jenkins"
+  // stays ambiguous once the model has told us about both Sarah and Tom Jenkins.
+  const known = [...speakers];
+  speakers.forEach(s => {
+    if (s.hint && !known.some(k => k.name.toLowerCase() === s.hint!.toLowerCase())) {
+      known.push({ name: s.hint, tokens: nameTokens(s.hint), gender: s.gender });
+    }
+  });
+
+  speakers.forEach(speaker => {
+    const entry = findBibleEntry(bible, speaker.name);
+    const target = entry?.name
+      ?? (speaker.hint && speaker.hint.toLowerCase() !== speaker.name.toLowerCase() ? speaker.hint : null)
+      ?? heuristicParent(speaker, known);
+    if (target && target !== speaker.name) parent.set(speaker.name, target);
+  });
+
+  // Follow chains ("Miss Jenkins" -> "Sarah" -> "Sarah Jenkins"), stopping on cycles
+  const canonicalOf = (name: string) => {
+    const seen = new Set<string>([name]);
+    let current = name;
+    while (parent.has(current) && !seen.has(parent.get(current)!)) {
+      current = parent.get(current)!;
+      seen.add(current);
+    }
+    // Hints may differ from an attributed name only by case; prefer the attributed spelling
+    return speakers.find(s => s.name.toLowerCase() === current.toLowerCase())?.name ?? current;
+  };
+
+  const groups = new Map<string, SpeakerGroup>();
+  speakers.forEach(speaker => {
+    const canonical = canonicalOf(speaker.name);
+    const group = groups.get(canonical) ?? { canonical, variants: [], confirmed: false };
+    group.variants.push(speaker.name);
+    groups.set(canonical, group);
+  });
+  return [...groups.values()];
+};
+
+// Rewrites speakers to their canonical name, keeping the attributed one in originalSpeaker.
+// Merged variants share one gender so the whole group is cast as a single character.
+export const applySpeakerGroups = (segments: ParsedSegment[], groups: SpeakerGroup[]): ParsedSegment[] => {
+  const canonicalByVariant = new Map<string, string>();
+  groups.forEach(g => g.variants.forEach(v => canonicalByVariant.set(v, g.canonical)));
+
+  const genders = new Map<string, Gender>();
+  groups.forEach(g => {
+    const members = segments.filter(s => !s.isNarrator && g.variants.includes(rawSpeaker(s)));
+    const gender = majority(members.map(s => s.gender).filter(gd => gd !== 'neutral')) ?? titleGender(g.canonical);
+    genders.set(g.canonical, gender);
+  });
+
+  return segments.map(seg => {
+    if (seg.isNarrator) return seg;
+    const raw = rawSpeaker(seg);
+    const canonical = canonicalByVariant.get(raw);
+    if (!canonical) return seg;
+    return { ...seg, speaker: canonical, originalSpeaker: raw, gender: genders.get(canonical) ?? seg.gender };
+  });
+};
+
+// Only lines still showing the group's name are handed back, so hand edits to a speaker survive a split
+export const splitSpeakerVariant = (
+  segments: ParsedSegment[],
+  groups: SpeakerGroup[],
+  canonical: string,
+  variant: string
+): { segments: ParsedSegment[], groups: SpeakerGroup[] } => ({
+  segments: segments.map(seg =>
+    !seg.isNarrator && seg.speaker === canonical && seg.originalSpeaker === variant ? { ...seg, speaker: variant } : seg),
+  groups: [
+    ...groups.map(g => g.canonical === canonical ? { ...g, variants: g.variants.filter(v => v !== variant) } : g),
+    { canonical: variant, variants: [variant], confirmed: true }
+  ]
+});
+
+export const isMergedGroup = (group: SpeakerGroup) =>
+  group.variants.length > 1 || (group.variants.length === 1 && group.variants[0] !== group.canonical);
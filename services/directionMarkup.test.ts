@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedSegment } from '../types';
+import { applyDirectionMarkup } from './directionMarkup';
+
+const seg = (id: string, text: string, extra: Partial<ParsedSegment> = {}): ParsedSegment => ({
+  id, text, originalText: text, speaker: 'Anna', isNarrator: false, gender: 'female', emotion: 'neutral', ...extra
+});
+
+describe('applyDirectionMarkup', () => {
+  it('splits at pauses and strips markup from the spoken text', () => {
+    const out = applyDirectionMarkup([seg('s1', 'Wait. [pause 2s] Now *go*.')]);
+    expect(out.map(s => s.text)).toEqual(['Wait.', 'Now go.']);
+    expect(out[0].pauseAfter).toBe(2);
+    expect(out[1].direction).toBe('Emphasize "go".');
+    expect(out[1].originalText).toBe('Now *go*.');
+  });
+
+  it('carries a whisper across segments until it closes', () => {
+    const out = applyDirectionMarkup([seg('s1', '[whisper] Quiet now.'), seg('s2', 'Still quiet. [/whisper]'), seg('s3', 'Loud.')]);
+    expect(out.map(s => s.direction)).toEqual(['Whisper this line.', 'Whisper this line.', undefined]);
+  });
+
+  it('starts a cue between two lines of one segment on the line after it', () => {
+    const out = applyDirectionMarkup([seg('s1', '"Are you sure?" [sfx:door] "Who\'s there?"')]);
+    expect(out.map(s => [s.text, s.sfx])).toEqual([['"Are you sure?"', undefined], ['"Who\'s there?"', 'door']]);
+  });
+
+  it('moves a cue at the end of a segment on to the next segment', () => {
+    const out = applyDirectionMarkup([seg('s1', '"Are you sure?" [sfx:door]'), seg('s2', '"Who\'s there?"')]);
+    expect(out.map(s => [s.text, s.sfx])).toEqual([['"Are you sure?"', undefined], ['"Who\'s there?"', 'door']]);
+    expect(out[1].originalText).toBe('[sfx:door] "Who\'s there?"');
+  });
+
+  it('gives a pause at the end of a segment to the line before it', () => {
+    const out = applyDirectionMarkup([seg('s1', 'One. [pause 500ms]'), seg('s2', 'Two.')]);
+    expect(out.map(s => s.pauseAfter)).toEqual([0.5, undefined]);
+  });
+
+  it('keeps markup after the last words on the last line', () => {
+    const out = applyDirectionMarkup([seg('s1', 'The end. [pause 1s] [sfx: thunder]')]);
+    expect(out).toHaveLength(1);
+    expect(out[0]).toMatchObject({ text: 'The end.', sfx: 'thunder', pauseAfter: 1 });
+  });
+
+  it('moves an inferred cue to the piece holding its keyword', () => {
+    const out = applyDirectionMarkup([seg('s1', 'The door opened. [pause 1s] she said.', { sfx: 'door' })]);
+    expect(out.map(s => s.sfx)).toEqual(['creak', undefined]);
+  });
+
+  it('lets an sfx tag replace an inferred cue', () => {
+    const out = applyDirectionMarkup([seg('s1', '[sfx: wind] The door opened.', { sfx: 'door' })]);
+    expect(out.map(s => s.sfx)).toEqual(['wind']);
+  });
+});
@@ -0,0 +1,202 @@
+import { ParsedSegment } from "../types";
+import { SFX_VOCABULARY, findVocabulary } from './audioEngine';
+
+// Inline direction markup in manuscripts:
+//   [pause 2s] / [pause 500ms]   explicit silence in the timeline
+//   *emphasis*                   stress, passed to the speech engine as an instruction
+//   [whisper] ... [/whisper]     whispered delivery, may span several segments
+//   [sfx: door]                  a sound cue at that point in the text
+// Segments are cut at pauses, cues and whisper boundaries, since timing, SFX and delivery
+// all apply per segment. Spoken text is stripped of markup; originalText keeps it. A cue the
+// analyzer inferred from a keyword follows that keyword into its piece; an [sfx:] tag beats it.
+
+const MARKUP = /\[pause\s+(\d+(?:\.\d+)?)\s*(ms|s)?\s*\]|\[sfx:\s*([^\]]+?)\s*\]|\[(\/?)whisper\]/gi;
+const EMPHASIS = /\*([^*\n]+)\*/g;
+
+export const hasDirectionMarkup = (text: string) => new RegExp(MARKUP.source, 'i').test(text) || /\*[^*\n]+\*/.test(text);
+
+interface Piece {
+  raw: string;
+  text: string;
+  whisper: boolean;
+  pauseBefore: number;
+  pauseAfter: number;
+  sfx?: string;
+}
+
+const directionFor = (text: string, whisper: boolean) => {
+  const emphasized = [...text.matchAll(EMPHASIS)].map(m => `"${m[1].trim()}"`);
+  return [
+    whisper ? 'Whisper this line.' : '',
+    emphasized.length > 0 ? `Emphasize ${emphasized.join(', ')}.` : ''
+  ].filter(Boolean).join(' ') || undefined;
+};
+
+const roundPause = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const spokenLetters = (text: string) => text.replace(MARKUP, '').replace(/[\s*]/g, '');
+
+// Cuts a line's marked-up original where a cut at `at` in its spoken text falls, so both halves
+// keep their markup. Undefined when the original no longer reads as the text (it was retyped).
+export const splitMarkup = (originalText: string, text: string, at: number): [string, string] | undefined => {
+  if (spokenLetters(originalText) !== spokenLetters(text)) return undefined;
+  const wanted = spokenLetters(text.slice(0, at)).length;
+  const token = new RegExp(MARKUP.source, 'iy');
+  let seen = 0;
+  let cut = 0;
+  for (let i = 0; i < originalText.length && seen < wanted; i++) {
+    token.lastIndex = i;
+    const match = token.exec(originalText);
+    if (match) {
+      i += match[0].length - 1;
+    } else if (!/[\s*]/.test(originalText[i])) {
+      seen++;
+      cut = i + 1;
+    }
+  }
+  let head = originalText.slice(0, cut);
+  let tail = originalText.slice(cut);
+  // Take a closing asterisk along; a cut inside an emphasis closes it and opens it again after
+  while ((head.match(/\*/g)?.length ?? 0) % 2 === 1 && tail.startsWith('*')) {
+    head += '*';
+    tail = tail.slice(1);
+  }
+  if ((head.match(/\*/g)?.length ?? 0) % 2 === 1) {
+    head += '*';
+    tail = `*${tail.trimStart()}`;
+  }
+  // A whisper still open at the cut carries on into the second half
+  const whisperTags = [...head.matchAll(/\[(\/?)whisper\]/gi)];
+  if (whisperTags.length > 0 && whisperTags[whisperTags.length - 1][1] !== '/') tail = `[whisper] ${tail.trimStart()}`;
+  return [head.trim(), tail.trim()];
+};
+
+export const applyDirectionMarkup = (segments: ParsedSegment[]): ParsedSegment[] => {
+  const out: ParsedSegment[] = [];
+  const cued = new Set<number>(); // Indices into `out` whose sfx came from an [sfx:] tag
+  let whisper = false;
+  let carriedPause = 0;
+  let carriedSfx: string | undefined;
+  let carriedRaw = '';
+
+  segments.forEach(seg => {
+    if (!hasDirectionMarkup(seg.text) && !whisper && carriedPause === 0 && !carriedSfx && !carriedRaw) {
+      out.push(seg);
+      return;
+    }
+
+    const pieces: Piece[] = [];
+    let current: Piece = { raw: '', text: '', whisper, pauseBefore: 0, pauseAfter: 0 };
+    let cursor = 0;
+    const flush = () => {
+      pieces.push(current);
+      current = { raw: '', text: '', whisper, pauseBefore: 0, pauseAfter: 0 };
+    };
+
+    for (const match of seg.text.matchAll(MARKUP)) {
+      const before = seg.text.slice(cursor, match.index);
+      current.raw += before;
+      current.text += before;
+      const hasText = current.text.trim().length > 0;
+      const [token, amount, unit, sfx, closing] = match;
+      if (amount !== undefined) {
+        const seconds = parseFloat(amount) / (unit?.toLowerCase() === 'ms' ? 1000 : 1);
+        if (hasText) {
+          current.raw += token;
+          current.pauseAfter += seconds;
+          flush();
+        } else {
+          current.raw += token;
+          current.pauseBefore += seconds;
+        }
+      } else if (sfx !== undefined) {
+        if (hasText) flush();
+        current.raw += token;
+        current.sfx = sfx.toLowerCase();
+      } else if (closing === '/') {
+        // The closing tag stays with the text it closes
+        current.raw += token;
+        if (hasText) flush();
+        whisper = false;
+        current.whisper = false;
+      } else {
+        if (hasText) flush();
+        whisper = true;
+        current.whisper = true;
+        current.raw += token;
+      }
+      cursor = (match.index ?? 0) + token.length;
+    }
+    const rest = seg.text.slice(cursor);
+    current.raw += rest;
+    current.text += rest;
+    flush();
+
+    const first = out.length;
+    pieces.forEach(piece => {
+      const spoken = piece.text.replace(EMPHASIS, '$1').replace(/\s+/g, ' ').trim();
+      // Markup-only pieces hand their silence to the previous line. A cue plays where a line
+      // starts, so it (and any silence with it) goes on to the next line.
+      if (!spoken || /^[\s,.;:!?—–-]*$/.test(spoken)) {
+        const pause = piece.pauseBefore + piece.pauseAfter;
+        const previous = out[out.length - 1];
+        if (previous && !piece.sfx && pause > 0) {
+          out[out.length - 1] = {
+            ...previous,
+            pauseAfter: roundPause((previous.pauseAfter ?? 0) + pause),
+            originalText: `${previous.originalText} ${piece.raw.trim()}`.trim()
+          };
+        } else {
+          carriedPause += pause;
+          carriedRaw = `${carriedRaw} ${piece.raw.trim()}`.trim();
+          if (piece.sfx) carriedSfx = piece.sfx;
+        }
+        return;
+      }
+      const pauseBefore = roundPause(carriedPause + piece.pauseBefore);
+      const emitted = out.length - first;
+      const sfx = carriedSfx ?? piece.sfx;
+      out.push({
+        ...seg,
+        id: emitted === 0 ? seg.id : `${seg.id}_d${emitted}`,
+        text: spoken,
+        originalText: `${carriedRaw} ${piece.raw.trim()}`.trim(),
+        sfx,
+        direction: directionFor(piece.text, piece.whisper),
+        pauseBefore: pauseBefore > 0 ? pauseBefore : undefined,
+        pauseAfter: piece.pauseAfter > 0 ? roundPause(piece.pauseAfter) : undefined
+      });
+      if (sfx) cued.add(out.length - 1);
+      carriedPause = 0;
+      carriedSfx = undefined;
+      carriedRaw = '';
+    });
+
+    // Look the inferred cue up again piece by piece. One the lookup can't place (a free-form
+    // model cue) stays at the start of the line, unless a tag in the line already cued it.
+    if (seg.sfx && out.length > first) {
+      let placed = false;
+      for (let i = first; i < out.length; i++) {
+        if (cued.has(i)) continue;
+        const [keyword] = findVocabulary(out[i].text, SFX_VOCABULARY);
+        if (keyword) placed = true;
+        out[i] = { ...out[i], sfx: keyword };
+      }
+      const tagged = [...cued].some(i => i >= first);
+      if (!placed && !tagged) out[first] = { ...out[first], sfx: seg.sfx };
+    }
+  });
+
+  // Markup after the last words has no next line to go to, so it stays with the last one
+  const last = out[out.length - 1];
+  if (last && (carriedPause > 0 || carriedSfx || carriedRaw)) {
+    out[out.length - 1] = {
+      ...last,
+      sfx: carriedSfx ?? last.sfx,
+      pauseAfter: carriedPause > 0 ? roundPause((last.pauseAfter ?? 0) + carriedPause) : last.pauseAfter,
+      originalText: `${last.originalText} ${carriedRaw}`.trim()
+    };
+  }
+
+  return out;
+};
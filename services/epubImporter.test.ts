@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { File as NodeFile } from 'node:buffer';
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { importEpub } from './epubImporter';
+
+const xhtml = (body: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title></head><body>${body}</body></html>`;
+
+const makeEpub = (chapters: Record<string, string>) => {
+  const ids = Object.keys(chapters);
+  const zip = zipSync({
+    'mimetype': strToU8('application/epub+zip'),
+    'META-INF/container.xml': strToU8(
+      '<?xml version="1.0"?><container xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles>' +
+      '<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+    ),
+    'OEBPS/content.opf': strToU8(
+      '<?xml version="1.0"?><package xmlns="http://www.idpf.org/2007/opf" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+      '<metadata><dc:title>The Test Book</dc:title><dc:creator>A. Writer</dc:creator></metadata><manifest>' +
+      ids.map(id => `<item id="${id}" href="${id}.xhtml" media-type="application/xhtml+xml"/>`).join('') +
+      '</manifest><spine>' + ids.map(id => `<itemref idref="${id}"/>`).join('') + '</spine></package>'
+    ),
+    ...Object.fromEntries(ids.map(id => [`OEBPS/${id}.xhtml`, strToU8(xhtml(chapters[id]))]))
+  });
+  // jsdom's File can't be read back, Node's can
+  return new NodeFile([zip], 'test.epub') as unknown as File;
+};
+
+describe('importEpub', () => {
+  it('reads chapters in spine order with paragraph breaks and metadata', async () => {
+    const book = await importEpub(makeEpub({
+      one: '<h1>Arrival</h1><p>The train stopped.</p><p>Nobody got off.</p>',
+      two: '<h1>Departure</h1><p>She left at dawn.</p>'
+    }));
+    expect(book.metadata).toMatchObject({ title: 'The Test Book', author: 'A. Writer' });
+    expect(book.chapters.map(c => [c.title, c.text])).toEqual([
+      ['Arrival', 'The train stopped.\nNobody got off.'],
+      ['Departure', 'She left at dawn.']
+    ]);
+  });
+
+  it('keeps italics as emphasis markup', async () => {
+    const book = await importEpub(makeEpub({ one: '<p>It was <i>not</i> her <em>fault</em>.</p>' }));
+    expect(book.chapters[0].text).toBe('It was *not* her *fault*.');
+  });
+
+  it('drops a heading that repeats the chapter title, italic or not', async () => {
+    const book = await importEpub(makeEpub({ one: '<h1><i>Arrival</i></h1><p>The train stopped.</p>' }));
+    expect(book.chapters[0]).toMatchObject({ title: 'Arrival', text: 'The train stopped.' });
+  });
+});
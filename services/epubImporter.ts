@@ -0,0 +1,173 @@
+import { unzipSync, strFromU8, Unzipped } from 'fflate';
+import { BookCover, ImportedManuscript, ManuscriptChapter } from "../types";
+
+interface ManifestItem {
+  id: string;
+  href: string; // Resolved against the zip root
+  mediaType: string;
+  properties: string;
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'blockquote', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre', 'tr', 'hr'
+]);
+const ITALIC_TAGS = new Set(['i', 'em', 'cite']);
+const SKIP_TAGS = new Set(['script', 'style', 'head', 'title', 'nav']);
+
+const parseXml = (source: string, type: DOMParserSupportedType = 'application/xml') => {
+  const doc = new DOMParser().parseFromString(source, type);
+  // Plenty of real-world EPUBs ship XHTML that isn't well-formed XML; fall back to the lenient HTML parser
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    return new DOMParser().parseFromString(source, 'text/html');
+  }
+  return doc;
+};
+
+const byLocalName = (root: Document | Element, name: string) =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/') + 1) : '';
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base + decodeURIComponent(href.split('#')[0])).split('/');
+  const out: string[] = [];
+  parts.forEach(part => {
+    if (part === '..') out.pop();
+    else if (part !== '.' && part !== '') out.push(part);
+  });
+  return out.join('/');
+};
+
+const readText = (files: Unzipped, path: string) => {
+  const data = files[path];
+  if (!data) throw new Error(`EPUB is missing ${path}`);
+  return strFromU8(data);
+};
+
+const collapse = (value: string) => value.replace(/\s+/g, ' ');
+
+// Flattens XHTML to paragraphs; italics survive as *emphasis* so the direction markup can pick them up
+const extractText = (root: Node): string => {
+  const blocks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const trimmed = current.trim();
+    if (trimmed) blocks.push(trimmed);
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += collapse(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).localName.toLowerCase();
+    if (SKIP_TAGS.has(tag)) return;
+    if (tag === 'br') { flush(); return; }
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    if (ITALIC_TAGS.has(tag)) {
+      const inner = collapse(node.textContent || '').trim();
+      if (inner) current += `*${inner}*`;
+      return;
+    }
+    node.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(root);
+  flush();
+  return blocks.join('\n');
+};
+
+const readTocTitles = (files: Unzipped, manifest: ManifestItem[], tocId: string | null): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const add = (href: string, title: string) => {
+    const clean = collapse(title).trim();
+    if (clean && !titles.has(href)) titles.set(href, clean);
+  };
+
+  const nav = manifest.find(item => item.properties.split(/\s+/).includes('nav'));
+  if (nav) {
+    const doc = parseXml(readText(files, nav.href), 'application/xhtml+xml');
+    const tocNav = byLocalName(doc, 'nav').find(n => (n.getAttribute('epub:type') || n.getAttribute('type') || '').includes('toc'))
+      || byLocalName(doc, 'nav')[0];
+    if (tocNav) {
+      byLocalName(tocNav, 'a').forEach(a => add(resolvePath(dirname(nav.href), a.getAttribute('href') || ''), a.textContent || ''));
+    }
+  }
+
+  const ncx = manifest.find(item => item.id === tocId) || manifest.find(item => item.mediaType === 'application/x-dtbncx+xml');
+  if (ncx && files[ncx.href]) {
+    const doc = parseXml(readText(files, ncx.href));
+    byLocalName(doc, 'navPoint').forEach(point => {
+      const label = byLocalName(point, 'text')[0]?.textContent || '';
+      const src = byLocalName(point, 'content')[0]?.getAttribute('src') || '';
+      add(resolvePath(dirname(ncx.href), src), label);
+    });
+  }
+  return titles;
+};
+
+const readCover = (files: Unzipped, manifest: ManifestItem[], opf: Document): BookCover | undefined => {
+  const coverMeta = byLocalName(opf, 'meta').find(m => m.getAttribute('name') === 'cover')?.getAttribute('content');
+  const item = manifest.find(i => i.properties.split(/\s+/).includes('cover-image'))
+    || manifest.find(i => i.id === coverMeta && i.mediaType.startsWith('image/'));
+  if (!item || !files[item.href]) return undefined;
+  return { data: files[item.href], mimeType: item.mediaType };
+};
+
+export const importEpub = async (file: File): Promise<ImportedManuscript> => {
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+
+  const container = parseXml(readText(files, 'META-INF/container.xml'));
+  const opfPath = byLocalName(container, 'rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) throw new Error("EPUB container has no rootfile");
+
+  const opf = parseXml(readText(files, opfPath));
+  const opfDir = dirname(opfPath);
+  const manifest: ManifestItem[] = byLocalName(opf, 'item').map(item => ({
+    id: item.getAttribute('id') || '',
+    href: resolvePath(opfDir, item.getAttribute('href') || ''),
+    mediaType: item.getAttribute('media-type') || '',
+    properties: item.getAttribute('properties') || ''
+  }));
+  const spine = byLocalName(opf, 'spine')[0];
+  const tocTitles = readTocTitles(files, manifest, spine?.getAttribute('toc') || null);
+
+  const chapters: ManuscriptChapter[] = [];
+  byLocalName(opf, 'itemref').forEach((ref, index) => {
+    if (ref.getAttribute('linear') === 'no') return;
+    const item = manifest.find(m => m.id === ref.getAttribute('idref'));
+    if (!item || !files[item.href] || !item.mediaType.includes('html')) return;
+
+    const doc = parseXml(readText(files, item.href), 'application/xhtml+xml');
+    const body = byLocalName(doc, 'body')[0] || doc.documentElement;
+    const text = extractText(body);
+    if (!text.trim()) return;
+
+    const heading = ['h1', 'h2', 'h3'].map(tag => byLocalName(body, tag)[0]).find(Boolean);
+    const title = tocTitles.get(item.href)
+      || collapse(heading?.textContent || '').trim()
+      || `Section ${index + 1}`;
+    // The title is prepended on import, so a heading that repeats it would be read twice
+    const [first, ...rest] = text.split('\n');
+    const chapterText = first.replace(/\*/g, '').trim().toLowerCase() === title.toLowerCase() ? rest.join('\n') : text;
+    if (!chapterText.trim()) return;
+    chapters.push({ id: item.id || `chapter_${index}`, title, text: chapterText });
+  });
+
+  if (chapters.length === 0) throw new Error("EPUB has no readable chapters");
+
+  return {
+    metadata: {
+      title: collapse(byLocalName(opf, 'title')[0]?.textContent || file.name.replace(/\.epub$/i, '')).trim(),
+      author: byLocalName(opf, 'creator').map(c => collapse(c.textContent || '').trim()).filter(Boolean).join(', '),
+      cover: readCover(files, manifest, opf)
+    },
+    chapters
+  };
+};
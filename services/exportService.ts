@@ -0,0 +1,67 @@
+import { zipSync, strToU8, Zippable } from 'fflate';
+import { AudioTracks, DuckingSettings, ExportFormat, MixLevels, SceneContext, TrackKey } from "../types";
+import { expandTrack, applyDucking, DUCKED_TRACKS } from './audioEngine';
+import { encodeMP3, encodeWAV, encodeWAVData } from './audioEncoder';
+
+const STEM_KEYS: TrackKey[] = ['dialogue', 'score', 'ambience', 'sfx'];
+const LOOPED_STEMS: TrackKey[] = ['score', 'ambience'];
+
+export const slugify = (value: string, fallback: string = 'untitled') => {
+  const slug = value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return slug || fallback;
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const encodeAudio = (buffer: AudioBuffer, format: ExportFormat): Blob =>
+  format === 'mp3' ? encodeMP3(buffer) : encodeWAV(buffer);
+
+// Takes the mix already mastered (and its report already shown) rather than mastering on the way out
+export const exportMasterMix = (mastered: AudioBuffer, format: ExportFormat, title: string) => {
+  downloadBlob(encodeAudio(mastered, format), `${slugify(title, 'voxnovel-mix')}.${format}`);
+};
+
+export const exportStems = async (
+  tracks: AudioTracks,
+  levels: MixLevels,
+  scenes: SceneContext[],
+  title: string,
+  ducking: DuckingSettings
+): Promise<void> => {
+  const slug = slugify(title, 'voxnovel');
+  const files: Zippable = {};
+  const stems = STEM_KEYS.map(key => {
+    const expanded = expandTrack(tracks[key], tracks.duration, LOOPED_STEMS.includes(key));
+    const ducked = DUCKED_TRACKS.includes(key) && ducking.enabled;
+    const stem = ducked ? applyDucking(expanded, tracks.timings, ducking) : expanded;
+    const file = `stems/${key}.wav`;
+    // WAV barely compresses, so store it and keep the export fast
+    files[file] = [encodeWAVData(stem), { level: 0 }];
+    return { name: key, file, channels: stem.numberOfChannels, samples: stem.length, mixLevel: levels[key], ducked };
+  });
+
+  const manifest = {
+    title,
+    duration: tracks.duration,
+    sampleRate: tracks.dialogue.sampleRate,
+    bitDepth: 16,
+    stems,
+    ducking,
+    scenes,
+    exportedAt: new Date().toISOString()
+  };
+  files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+  const archive = zipSync(files);
+  downloadBlob(new Blob([archive as BlobPart], { type: 'application/zip' }), `${slug}-stems.zip`);
+};
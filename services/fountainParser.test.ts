@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { isFountainFile, parseFountain } from './fountainParser';
+
+const SCRIPT = `Title: The Test
+Author: A. Writer
+
+INT. KITCHEN - NIGHT
+
+Rain hammers the window. /* cut for time? */
+
+SARAH (V.O.)
+I knew he'd come back.
+(whispering)
+He always does.
+
+[[Check the blocking here.]]
+
+CUT TO:
+
+EXT. GARDEN - DAY
+
+@McTAVISH
+Morning!
+`;
+
+describe('parseFountain', () => {
+  it('maps action to the narrator and dialogue to its character', () => {
+    const { segments } = parseFountain(SCRIPT);
+    expect(segments.map(s => [s.speaker, s.text, s.emotion])).toEqual([
+      ['Narrator', 'Rain hammers the window.', 'Matter-of-fact'],
+      ['Sarah', "I knew he'd come back.", 'Neutral'],
+      ['Sarah', 'He always does.', 'whispering'],
+      ['Mctavish', 'Morning!', 'Neutral']
+    ]);
+  });
+
+  it('opens a scene at every heading', () => {
+    const { segments, scenes } = parseFountain(SCRIPT);
+    expect(scenes.map(s => [s.id, s.location, s.timeOfDay, s.roomToneType])).toEqual([
+      ['scene_0', 'Kitchen', 'Night', 'quiet_room'],
+      ['scene_1', 'Garden', 'Day', 'nature']
+    ]);
+    expect(segments.map(s => s.sceneId)).toEqual(['scene_0', 'scene_0', 'scene_0', 'scene_1']);
+  });
+
+  it('rejects a script with nothing to read', () => {
+    expect(() => parseFountain('Title: Empty\n\n/* nothing */\n')).toThrow();
+  });
+});
+
+describe('isFountainFile', () => {
+  it('recognises Fountain extensions', () => {
+    expect(['a.fountain', 'B.SPMD', 'c.txt'].map(isFountainFile)).toEqual([true, true, false]);
+  });
+});
@@ -0,0 +1,144 @@
+import { AnalysisResult, ParsedSegment, SceneContext } from "../types";
+
+// Fountain (https://fountain.io) scripts already name every speaker, so they map straight
+// onto segments without a model call. Notes, boneyard, sections, synopses, transitions,
+// page breaks and the title page carry no spoken content and are dropped.
+
+const SCENE_HEADING = /^(INT|EXT|EST|INT\.?\/EXT|I\/E)[.\s]/i;
+const TRANSITION = /^[A-Z\s]+TO:$/;
+const CHARACTER_EXTENSION = /\s*\((V\.O\.|O\.S\.|O\.C\.|CONT'D|CONT’D|[^)]*)\)\s*/gi;
+const NARRATOR_EMOTION = "Matter-of-fact";
+const DEFAULT_EMOTION = "Neutral";
+
+interface SceneHeading {
+  interior: boolean;
+  location: string;
+  timeOfDay: string;
+}
+
+const titleCase = (value: string) =>
+  value.toLowerCase().replace(/(^|[\s\-'’])(\p{L})/gu, (_, sep, ch) => sep + ch.toUpperCase());
+
+const stripNotes = (text: string) =>
+  text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\[\[[\s\S]*?\]\]/g, '');
+
+const stripTitlePage = (lines: string[]) => {
+  if (!/^\s*[A-Za-z ]+:/.test(lines[0] || '')) return lines;
+  const firstBlank = lines.findIndex(l => l.trim() === '');
+  return firstBlank === -1 ? [] : lines.slice(firstBlank + 1);
+};
+
+const isCharacterCue = (line: string, next: string | undefined) => {
+  const trimmed = line.trim();
+  if (trimmed.startsWith('@')) return true;
+  if (!next || next.trim() === '') return false;
+  const name = trimmed.replace(CHARACTER_EXTENSION, '').replace(/\^$/, '').trim();
+  return name.length > 0 && /\p{L}/u.test(name) && name === name.toUpperCase() && !TRANSITION.test(trimmed);
+};
+
+const parseSceneHeading = (line: string): SceneHeading => {
+  const raw = line.trim().replace(/^\./, '').replace(/#[^#]*#\s*$/, '').trim(); // drop forced dot + scene number
+  const interior = /^(INT|I\/E|INT\.?\/EXT)/i.test(raw);
+  const body = raw.replace(SCENE_HEADING, '').trim();
+  const [location, ...rest] = body.split(/\s+[-–—]\s+/);
+  return {
+    interior,
+    location: titleCase(location.replace(/^[.\s]+/, '')) || 'Unknown',
+    timeOfDay: rest.length > 0 ? titleCase(rest[rest.length - 1]) : ''
+  };
+};
+
+const sceneFromHeading = (heading: SceneHeading | null, id: string): SceneContext => ({
+  id,
+  location: heading?.location || 'Unknown',
+  timeOfDay: heading?.timeOfDay || '',
+  mood: 'Neutral',
+  roomToneType: heading ? (heading.interior ? 'quiet_room' : 'nature') : 'silence',
+  bgNoiseType: 'none',
+  scoreStyle: 'neutral',
+  narrativePerspective: 'third_person',
+  ambientSounds: []
+});
+
+export const isFountainFile = (fileName: string) => /\.(fountain|spmd)$/i.test(fileName);
+
+export const parseFountain = (source: string): AnalysisResult => {
+  const lines = stripTitlePage(stripNotes(source).replace(/\r\n?/g, '\n').split('\n'));
+  const segments: ParsedSegment[] = [];
+  const scenes: SceneContext[] = [];
+
+  const push = (text: string, speaker: string, emotion: string) => {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (!clean) return;
+    const isNarrator = speaker === 'Narrator';
+    segments.push({
+      id: `seg_${segments.length}`,
+      text: clean,
+      originalText: clean,
+      speaker,
+      isNarrator,
+      gender: 'neutral',
+      emotion: isNarrator ? NARRATOR_EMOTION : emotion,
+      ...(scenes.length > 0 ? { sceneId: scenes[scenes.length - 1].id } : {})
+    });
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const prevBlank = i === 0 || lines[i - 1].trim() === '';
+
+    if (trimmed === '' || /^(#|=)/.test(trimmed) || /^>.*<$/.test(trimmed) || trimmed.startsWith('~')) {
+      i++;
+      continue;
+    }
+
+    if (prevBlank && (SCENE_HEADING.test(trimmed) || /^\.[^.]/.test(trimmed))) {
+      // Every heading opens a scene; anything before the first plays in an untitled one
+      if (scenes.length === 0 && segments.length > 0) {
+        scenes.push(sceneFromHeading(null, 'scene_0'));
+        segments.forEach(seg => { seg.sceneId = 'scene_0'; });
+      }
+      scenes.push(sceneFromHeading(parseSceneHeading(trimmed), `scene_${scenes.length}`));
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('>') || (prevBlank && TRANSITION.test(trimmed))) {
+      i++;
+      continue;
+    }
+
+    if (prevBlank && !trimmed.startsWith('!') && isCharacterCue(trimmed, lines[i + 1])) {
+      const speaker = titleCase(trimmed.replace(/^@/, '').replace(CHARACTER_EXTENSION, '').replace(/\^$/, '').trim());
+      let emotion = DEFAULT_EMOTION;
+      let buffer = '';
+      i++;
+      while (i < lines.length && lines[i].trim() !== '') {
+        const dl = lines[i].trim();
+        if (/^\(.*\)$/.test(dl)) {
+          // A parenthetical mid-speech changes delivery, so it starts a fresh segment
+          push(buffer, speaker, emotion);
+          buffer = '';
+          emotion = dl.slice(1, -1).trim() || DEFAULT_EMOTION;
+        } else {
+          buffer += ' ' + dl;
+        }
+        i++;
+      }
+      push(buffer, speaker, emotion);
+      continue;
+    }
+
+    let action = '';
+    while (i < lines.length && lines[i].trim() !== '') {
+      action += ' ' + lines[i].trim().replace(/^!/, '');
+      i++;
+    }
+    push(action, 'Narrator', NARRATOR_EMOTION);
+  }
+
+  if (segments.length === 0) throw new Error("No dialogue or action found in script");
+  return { segments, scenes: scenes.length > 0 ? scenes : [sceneFromHeading(null, 'scene_0')] };
+};
@@ -2,23 +2,37 @@
 import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
 import { AnalysisResult, ParsedSegment, SceneContext } from "../types";
 import { base64ToInt16, trimSilenceRaw } from './audioEngine';
+import { AsyncJobQueue } from './jobQueue';
+import { withRetry } from './retry';
+import { DEFAULT_SCENE, SCENE_BREAK } from './scenes';
 
 const API_KEY = process.env.API_KEY || '';
 
 const ai = new GoogleGenAI({ apiKey: API_KEY });
 
+export const hasGeminiApiKey = () => API_KEY.length > 0;
+
 const ttsPromiseCache = new Map<string, Promise<Int16Array>>(); 
 const analysisCache = new Map<string, AnalysisResult>();
+const chunkCache = new Map<string, ChunkAnalysis>();
+
+const ANALYSIS_CONCURRENCY = 3;
+const analysisQueue = new AsyncJobQueue(ANALYSIS_CONCURRENCY);
+
+const MAX_CHUNK_CHARS = 8000;
+const CONTEXT_TAIL_CHARS = 600;
 
 const segmentSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     text: { type: Type.STRING, description: "The exact text content." },
     speaker: { type: Type.STRING, description: "Name of the character or 'Narrator'." },
+    canonicalSpeaker: { type: Type.STRING, description: "Fullest known name of the same character when 'speaker' is a variant (e.g. 'Miss Jenkins' -> 'Sarah Jenkins'). Omit if unsure." },
     isNarrator: { type: Type.BOOLEAN },
     gender: { type: Type.STRING, enum: ["male", "female", "neutral"] },
     emotion: { type: Type.STRING, description: "Dialogue tone. For Narrator: ALWAYS 'Matter-of-fact'." },
-    sfx: { type: Type.STRING, description: "Short SFX keyword or null." }
+    sfx: { type: Type.STRING, description: "Short SFX keyword or null." },
+    sceneIndex: { type: Type.INTEGER, description: "0-based index into 'scenes' of the scene this segment plays in." }
   },
   required: ["text", "speaker", "isNarrator", "gender", "emotion"]
 };
@@ -43,17 +57,93 @@ const analysisSchema: Schema = {
   type: Type.OBJECT,
   properties: {
     segments: { type: Type.ARRAY, items: segmentSchema },
-    scene: sceneSchema
+    scenes: { type: Type.ARRAY, items: sceneSchema, description: "Every scene in the text, in order. Usually one." }
   },
-  required: ["segments", "scene"]
+  required: ["segments", "scenes"]
 };
 
-export const analyzeText = async (text: string): Promise<AnalysisResult> => {
-  const cacheKey = text.trim();
-  if (analysisCache.has(cacheKey)) {
-    return JSON.parse(JSON.stringify(analysisCache.get(cacheKey)));
+export interface AnalysisProgress {
+  chunk: number; // 1-based index of the chunk that just started
+  total: number;
+  completed: number;
+}
+
+interface ChunkContext {
+  knownSpeakers: string[];
+  precedingText: string;
+  scene?: Omit<SceneContext, 'id'>;
+}
+
+// Raw model output for one chunk, before segments and scenes get ids
+interface ChunkAnalysis {
+  segments: (Omit<ParsedSegment, 'id' | 'originalText'> & { sceneIndex?: number })[];
+  scenes: Omit<SceneContext, 'id'>[];
+}
+
+const splitLongParagraph = (paragraph: string, maxChars: number): string[] => {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["'”’]?\s*|[^.!?]+$/g) || [paragraph];
+  const parts: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length > maxChars) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+// Cuts at scene breaks when the chunk is reasonably full, otherwise at paragraph boundaries.
+// Only a single paragraph longer than maxChars is ever split mid-paragraph (at sentence ends).
+export const splitManuscript = (text: string, maxChars: number = MAX_CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLen = 0;
+
+  const flush = () => {
+    const chunk = current.join('\n').trim();
+    if (chunk) chunks.push(chunk);
+    current = [];
+    currentLen = 0;
+  };
+
+  text.split(/\n/).forEach(line => {
+    if (SCENE_BREAK.test(line)) {
+      if (currentLen > maxChars / 2) flush();
+      else current.push('');
+      return;
+    }
+    const pieces = line.length > maxChars ? splitLongParagraph(line, maxChars) : [line];
+    pieces.forEach(piece => {
+      if (currentLen > 0 && currentLen + piece.length > maxChars) flush();
+      current.push(piece);
+      currentLen += piece.length + 1;
+    });
+  });
+  flush();
+  return chunks;
+};
+
+const analyzeChunk = async (text: string, context: ChunkContext): Promise<ChunkAnalysis> => {
+  const cacheKey = `${context.knownSpeakers.join('|')}::${context.precedingText}::${text}`;
+  if (chunkCache.has(cacheKey)) {
+    return JSON.parse(JSON.stringify(chunkCache.get(cacheKey)));
   }
 
+  const continuity = [
+    context.knownSpeakers.length > 0
+      ? `KNOWN CHARACTERS (reuse these exact names when they speak): ${context.knownSpeakers.join(', ')}.`
+      : '',
+    context.scene
+      ? `PREVIOUS SCENE: ${context.scene.location}, ${context.scene.timeOfDay}, ${context.scene.mood}. Keep it unless the text clearly moves elsewhere.`
+      : '',
+    context.precedingText
+      ? `PRECEDING TEXT (context only, do NOT include it in segments): "${context.precedingText}"`
+      : ''
+  ].filter(Boolean).join('\n    ');
+
   const prompt = `
     Analyze novel text for an immersive audiobook. 
     
@@ -64,10 +154,19 @@ export const analyzeText = async (text: string): Promise<AnalysisResult> => {
     - Narrator emotion MUST ALWAYS be "Matter-of-fact".
     - Delivery should be strictly professional and consistent.
 
-    Text to analyze: "${text.slice(0, 10000)}" 
+    SCENES:
+    - Start a new scene only when the location or time clearly changes, or at a scene break (e.g. "* * *").
+    - Set every segment's sceneIndex to its scene's position in 'scenes'.
+
+    DIRECTION MARKUP:
+    - Copy inline markup such as [pause 2s], *emphasis*, [whisper]...[/whisper] and [sfx: door] into segment text EXACTLY where it appears. Never drop, reword or translate it.
+
+    ${continuity}
+
+    Text to analyze: "${text}" 
   `;
 
-  const response = await ai.models.generateContent({
+  const response = await withRetry(() => ai.models.generateContent({
     model: "gemini-3-flash-preview",
     contents: prompt,
     config: {
@@ -75,20 +174,98 @@ export const analyzeText = async (text: string): Promise<AnalysisResult> => {
       responseSchema: analysisSchema,
       systemInstruction: "You are a script processing engine. You enforce extreme brevity in scene labels and professional, matter-of-fact narration.",
     },
+  }));
+
+  if (!response.text) throw new Error("No response");
+  const result = JSON.parse(response.text) as ChunkAnalysis;
+  chunkCache.set(cacheKey, result);
+  return result;
+};
+
+const sameScene = (a: Omit<SceneContext, 'id'>, b: Omit<SceneContext, 'id'>) =>
+  a.location.trim().toLowerCase() === b.location.trim().toLowerCase() &&
+  (a.timeOfDay || '').trim().toLowerCase() === (b.timeOfDay || '').trim().toLowerCase();
+
+// Same character spelled differently across chunks ("sarah" vs "Sarah") collapses to the first spelling seen.
+// A chunk that opens where the previous one left off continues its scene rather than starting a new one.
+const mergeChunkResults = (results: ChunkAnalysis[]): AnalysisResult => {
+  const canonicalSpeakers = new Map<string, string>();
+  const segments: ParsedSegment[] = [];
+  const scenes: SceneContext[] = [];
+
+  results.forEach((result, chunkIndex) => {
+    const sceneIds = (result.scenes || []).map((scene, k) => {
+      const previous = scenes[scenes.length - 1];
+      if (k === 0 && previous && sameScene(previous, scene)) return previous.id;
+      scenes.push({ ...scene, id: `scene_${chunkIndex}_${k}` });
+      return scenes[scenes.length - 1].id;
+    });
+    let sceneIndex = 0;
+    result.segments.forEach(({ sceneIndex: rawIndex, ...s }, i) => {
+      // Scenes only move forward within a chunk; a stray index keeps the current scene
+      if (typeof rawIndex === 'number' && rawIndex >= sceneIndex && rawIndex < sceneIds.length) sceneIndex = rawIndex;
+      const key = s.speaker.trim().toLowerCase();
+      if (!canonicalSpeakers.has(key)) canonicalSpeakers.set(key, s.speaker.trim());
+      segments.push({
+        ...s,
+        id: `seg_${chunkIndex}_${i}`,
+        speaker: canonicalSpeakers.get(key)!,
+        originalText: s.text,
+        emotion: s.isNarrator ? "Matter-of-fact" : s.emotion,
+        ...(sceneIds[sceneIndex] ? { sceneId: sceneIds[sceneIndex] } : {})
+      });
+    });
   });
 
-  if (response.text) {
-    const result = JSON.parse(response.text) as AnalysisResult;
-    result.segments = result.segments.map((s, i) => ({
-      ...s,
-      id: `seg_${Date.now()}_${i}`,
-      originalText: s.text,
-      emotion: s.isNarrator ? "Matter-of-fact" : s.emotion
-    }));
-    analysisCache.set(cacheKey, result);
-    return result;
+  return { segments, scenes: scenes.length > 0 ? scenes : [{ ...DEFAULT_SCENE, id: 'scene_0' }] };
+};
+
+const collectSpeakers = (result: ChunkAnalysis) =>
+  Array.from(new Set(result.segments.filter(s => !s.isNarrator).map(s => s.speaker)));
+
+export const analyzeText = async (
+  text: string,
+  onProgress?: (progress: AnalysisProgress) => void
+): Promise<AnalysisResult> => {
+  const cacheKey = text.trim();
+  if (analysisCache.has(cacheKey)) {
+    return JSON.parse(JSON.stringify(analysisCache.get(cacheKey)));
+  }
+
+  const chunks = splitManuscript(cacheKey);
+  if (chunks.length === 0) throw new Error("Empty manuscript");
+  let completed = 0;
+
+  // The opening chunk runs alone so its cast and scene can seed the rest. Later chunks run in
+  // small waves, each told every speaker named so far, so a character met late keeps one name.
+  const results: ChunkAnalysis[] = [];
+  const knownSpeakers: string[] = [];
+  while (results.length < chunks.length) {
+    const start = results.length;
+    const wave = chunks.slice(start, start === 0 ? 1 : start + ANALYSIS_CONCURRENCY);
+    const previous = results[results.length - 1];
+    const context = { knownSpeakers: [...knownSpeakers], scene: previous?.scenes?.[previous.scenes.length - 1] };
+    const waveResults = await Promise.all(wave.map((chunk, k) => analysisQueue.add(async () => {
+      const index = start + k;
+      onProgress?.({ chunk: index + 1, total: chunks.length, completed });
+      const result = await analyzeChunk(chunk, {
+        ...context,
+        precedingText: index > 0 ? chunks[index - 1].slice(-CONTEXT_TAIL_CHARS) : ''
+      });
+      onProgress?.({ chunk: index + 1, total: chunks.length, completed: ++completed });
+      return result;
+    })));
+    waveResults.forEach(result => {
+      results.push(result);
+      collectSpeakers(result).forEach(name => {
+        if (!knownSpeakers.some(known => known.toLowerCase() === name.trim().toLowerCase())) knownSpeakers.push(name.trim());
+      });
+    });
   }
-  throw new Error("No response");
+
+  const result = mergeChunkResults(results);
+  analysisCache.set(cacheKey, result);
+  return JSON.parse(JSON.stringify(result));
 };
 
 export const generateSpeech = async (text: string, voiceName: string, context: string): Promise<Int16Array> => {
@@ -116,5 +293,9 @@ export const generateSpeech = async (text: string, voiceName: string, context: s
   })();
 
   ttsPromiseCache.set(cacheKey, task);
+  // A rejected promise must not stay cached, or every retry would replay the same failure
+  task.catch(() => {
+    if (ttsPromiseCache.get(cacheKey) === task) ttsPromiseCache.delete(cacheKey);
+  });
   return task;
 };
@@ -0,0 +1,34 @@
+export class AsyncJobQueue {
+  private concurrency: number;
+  private active: number = 0;
+  private queue: (() => Promise<void>)[] = [];
+
+  constructor(concurrency: number = 4) {
+    this.concurrency = concurrency;
+  }
+
+  add<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const wrapper = async () => {
+        try {
+           const result = await task();
+           resolve(result);
+        } catch (e) {
+           reject(e);
+        } finally {
+           this.active--;
+           this.next();
+        }
+      };
+      this.queue.push(wrapper);
+      this.next();
+    });
+  }
+
+  private next() {
+    if (this.active >= this.concurrency || this.queue.length === 0) return;
+    this.active++;
+    const task = this.queue.shift();
+    task?.();
+  }
+}
@@ -0,0 +1,33 @@
+import { LexiconEntry } from "../types";
+
+// Per-project pronunciation fixes for invented names. Respellings are substituted into the spoken
+// text (every engine benefits); IPA can't be read inline, so it is passed as an instruction instead.
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const entryPattern = (entry: LexiconEntry) => {
+  const word = escapeRegExp(entry.word.trim());
+  // \b only understands ASCII word characters, so whole-word matching uses Unicode lookarounds
+  const source = entry.wholeWord ? `(?<![\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}])` : word;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+};
+
+const usable = (lexicon: LexiconEntry[]) => lexicon.filter(e => e.word.trim() && e.pronunciation.trim());
+
+export const createLexiconEntryId = () => `lex_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+
+export const lexiconMatches = (text: string, lexicon: LexiconEntry[]) =>
+  usable(lexicon).filter(e => entryPattern(e).test(text));
+
+export const applyLexicon = (text: string, lexicon: LexiconEntry[]) =>
+  usable(lexicon)
+    .filter(e => e.kind === 'respelling')
+    // Longest first, so "Aerith Gainsborough" wins over "Aerith"
+    .sort((a, b) => b.word.length - a.word.length)
+    .reduce((result, e) => result.replace(entryPattern(e), e.pronunciation.trim()), text);
+
+export const pronunciationInstruction = (text: string, lexicon: LexiconEntry[]) => {
+  const ipa = lexiconMatches(text, lexicon).filter(e => e.kind === 'ipa');
+  if (ipa.length === 0) return '';
+  return `Pronounce ${ipa.map(e => `"${e.word.trim()}" as /${e.pronunciation.trim().replace(/^\/|\/$/g, '')}/`).join(', ')}.`;
+};
@@ -0,0 +1,263 @@
+import { AnalysisResult, ParsedSegment, SceneContext } from "../types";
+import { AMBIENT_VOCABULARY, SFX_VOCABULARY, findVocabulary } from './audioEngine';
+import { SCENE_BREAK } from './scenes';
+
+// Deterministic, offline alternative to analyzeText. Splits quoted dialogue from narration,
+// attributes quotes from dialogue tags ("whispered Sarah", "Mark retorted", "she asked") and
+// alternates between the last two speakers through untagged exchanges.
+
+type Gender = ParsedSegment['gender'];
+
+const SPEECH_VERBS = [
+  'said', 'says', 'asked', 'asks', 'whispered', 'whispers', 'retorted', 'replied', 'shouted', 'muttered',
+  'cried', 'called', 'answered', 'added', 'snapped', 'murmured', 'yelled', 'exclaimed', 'hissed',
+  'growled', 'breathed', 'began', 'continued', 'insisted', 'laughed', 'sighed', 'demanded', 'warned',
+  'agreed', 'admitted', 'pleaded', 'screamed', 'stammered', 'told', 'repeated', 'grumbled', 'teased'
+];
+
+const VERB_EMOTIONS: Record<string, string> = {
+  whispered: 'Hushed', whispers: 'Hushed', murmured: 'Hushed', breathed: 'Hushed',
+  shouted: 'Shouting', yelled: 'Shouting', screamed: 'Panicked', cried: 'Distressed',
+  retorted: 'Defiant', snapped: 'Irritated', hissed: 'Angry', growled: 'Angry', demanded: 'Forceful',
+  asked: 'Curious', asks: 'Curious', laughed: 'Amused', teased: 'Playful', sighed: 'Weary',
+  pleaded: 'Desperate', stammered: 'Nervous', muttered: 'Grumbling', grumbled: 'Grumbling',
+  warned: 'Serious', exclaimed: 'Excited', insisted: 'Firm'
+};
+
+const CUE_EMOTIONS: [RegExp, string][] = [
+  [/trembl|shak|quiver/, 'Fearful'],
+  [/tear|sob|weep/, 'Sad'],
+  [/grin|smil|laugh/, 'Amused'],
+  [/glar|scowl|clench/, 'Angry'],
+];
+
+const TITLES = ['Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Sir', 'Lady', 'Lord', 'Captain', 'Professor', 'Madam', 'Aunt', 'Uncle'];
+const FEMALE_TITLES = new Set(['Mrs', 'Ms', 'Miss', 'Lady', 'Madam', 'Aunt']);
+const MALE_TITLES = new Set(['Mr', 'Sir', 'Lord', 'Uncle']);
+
+const NOT_NAMES = new Set([
+  'The', 'A', 'An', 'He', 'She', 'They', 'It', 'I', 'We', 'You', 'His', 'Her', 'Their', 'Then', 'But', 'And',
+  'Someone', 'Everyone', 'Nobody', 'This', 'That', 'There', 'Here', 'When', 'As', 'If', 'So', 'Yes', 'No'
+]);
+
+const NAME = `((?:(?:${TITLES.join('|')})\\.?\\s+)?[A-Z][\\p{L}'’-]+(?:\\s+[A-Z][\\p{L}'’-]+)?)`;
+const VERBS = `(${SPEECH_VERBS.join('|')})`;
+const VERB_THEN_NAME = new RegExp(`\\b${VERBS}\\s+${NAME}`, 'u');
+const NAME_THEN_VERB = new RegExp(`${NAME}\\s+(?:\\p{Ll}+ly\\s+)?${VERBS}\\b`, 'u');
+const PRONOUN_THEN_VERB = new RegExp(`\\b(he|she|I)\\s+(?:\\p{Ll}+ly\\s+)?${VERBS}\\b`, 'iu');
+const ADVERB = new RegExp(`${VERBS}\\s+(\\p{Ll}+ly)\\b`, 'u');
+const QUOTE = /“([^”]*)”|"([^"]*)"/g;
+
+interface DialogueTag {
+  speaker: string;
+  verb: string;
+}
+
+const cleanName = (name: string) => {
+  const words = name.trim().split(/\s+/);
+  // "Mark Then" style over-captures: drop a trailing non-name word
+  while (words.length > 1 && NOT_NAMES.has(words[words.length - 1])) words.pop();
+  return words.join(' ').replace(/\.(?=\s)/, '');
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+interface Speakers {
+  last: string | null;
+  previous: string | null; // Most recent speaker different from `last`
+  lastByGender: Partial<Record<Gender, string>>;
+}
+
+export const analyzeTextLocally = (text: string): AnalysisResult => {
+  const segments: ParsedSegment[] = [];
+  const genders = new Map<string, Gender>();
+  const speakers: Speakers = { last: null, previous: null, lastByGender: {} };
+
+  const noteSpeaker = (name: string) => {
+    if (name !== speakers.last) {
+      speakers.previous = speakers.last;
+      speakers.last = name;
+    }
+    const gender = genders.get(name);
+    if (gender && gender !== 'neutral') speakers.lastByGender[gender] = name;
+  };
+
+  const findTag = (narration: string): DialogueTag | null => {
+    const byVerb = narration.match(VERB_THEN_NAME);
+    if (byVerb && !NOT_NAMES.has(byVerb[2].split(/\s+/)[0])) return { speaker: cleanName(byVerb[2]), verb: byVerb[1] };
+    const byName = narration.match(NAME_THEN_VERB);
+    if (byName && !NOT_NAMES.has(byName[1].split(/\s+/)[0])) return { speaker: cleanName(byName[1]), verb: byName[2] };
+    const byPronoun = narration.match(PRONOUN_THEN_VERB);
+    if (byPronoun) {
+      const pronoun = byPronoun[1].toLowerCase();
+      if (pronoun === 'i') return { speaker: 'I', verb: byPronoun[2] };
+      const referent = speakers.lastByGender[pronoun === 'he' ? 'male' : 'female'];
+      if (referent) return { speaker: referent, verb: byPronoun[2] };
+    }
+    return null;
+  };
+
+  const inferEmotion = (narration: string, tag: DialogueTag | null) => {
+    const adverb = narration.match(ADVERB);
+    if (adverb) return capitalize(adverb[2].replace(/ly$/, '').replace(/i$/, 'y'));
+    const cue = CUE_EMOTIONS.find(([pattern]) => pattern.test(narration.toLowerCase()));
+    if (cue) return cue[1];
+    return (tag && VERB_EMOTIONS[tag.verb]) || 'Neutral';
+  };
+
+  const push = (segment: Omit<ParsedSegment, 'id' | 'originalText'>) => {
+    if (!segment.text.trim()) return;
+    segments.push({ ...segment, id: `seg_${segments.length}`, originalText: segment.text });
+  };
+
+  // Gender from titles and pronouns that follow a name ("Sarah, clutching her coat")
+  const learnGender = (name: string, context: string) => {
+    if (genders.get(name) && genders.get(name) !== 'neutral') return;
+    const title = name.split(/[\s.]+/)[0];
+    if (FEMALE_TITLES.has(title)) return genders.set(name, 'female');
+    if (MALE_TITLES.has(title)) return genders.set(name, 'male');
+    const female = (context.match(/\b(she|her|hers|herself)\b/gi) || []).length;
+    const male = (context.match(/\b(he|him|his|himself)\b/gi) || []).length;
+    genders.set(name, female > male ? 'female' : male > female ? 'male' : 'neutral');
+  };
+
+  // Scene breaks ("* * *", "#") close one block of text and open the next; each block is its own scene
+  const blocks: SceneBlock[] = [{ paragraphs: [], firstSegment: 0 }];
+  const paragraphs = text.split(/\n+/).map(p => p.trim()).filter(Boolean);
+  paragraphs.forEach((paragraph, pIndex) => {
+    if (SCENE_BREAK.test(paragraph)) {
+      if (blocks[blocks.length - 1].paragraphs.length > 0) blocks.push({ paragraphs: [], firstSegment: segments.length });
+      return;
+    }
+    blocks[blocks.length - 1].paragraphs.push(paragraph);
+    const parts: { text: string, isQuote: boolean }[] = [];
+    let cursor = 0;
+    for (const match of paragraph.matchAll(QUOTE)) {
+      parts.push({ text: paragraph.slice(cursor, match.index), isQuote: false });
+      parts.push({ text: match[1] ?? match[2], isQuote: true });
+      cursor = (match.index ?? 0) + match[0].length;
+    }
+    parts.push({ text: paragraph.slice(cursor), isQuote: false });
+
+    const narration = parts.filter(p => !p.isQuote).map(p => p.text).join(' ');
+    const hasQuote = parts.some(p => p.isQuote);
+    const tag = hasQuote ? findTag(narration) : null;
+
+    let speaker: string;
+    if (tag) speaker = tag.speaker;
+    else if (speakers.previous) speaker = speakers.previous; // Untagged reply in an exchange
+    else speaker = speakers.last || 'Stranger';
+
+    if (hasQuote) {
+      const following = paragraphs.slice(pIndex, pIndex + 2).join(' ');
+      learnGender(speaker, narration || following);
+    }
+    const emotion = hasQuote ? inferEmotion(narration, tag) : 'Neutral';
+
+    parts.forEach(part => {
+      const partText = part.text.trim().replace(/^[,;:]\s*/, '');
+      if (!partText || /^[\s,.;:!?—–-]*$/.test(partText)) return;
+      if (part.isQuote) {
+        push({
+          text: partText,
+          speaker,
+          isNarrator: false,
+          gender: genders.get(speaker) || 'neutral',
+          emotion
+        });
+      } else {
+        const [sfx] = findVocabulary(partText, SFX_VOCABULARY);
+        push({
+          text: partText,
+          speaker: 'Narrator',
+          isNarrator: true,
+          gender: 'neutral',
+          emotion: 'Matter-of-fact',
+          ...(sfx ? { sfx } : {})
+        });
+      }
+    });
+    if (hasQuote) noteSpeaker(speaker);
+  });
+
+  // Genders settle as the text goes on; apply the final verdict everywhere
+  segments.forEach(seg => {
+    if (!seg.isNarrator) seg.gender = genders.get(seg.speaker) || 'neutral';
+  });
+
+  return { segments, scenes: inferScenes(text, segments, blocks) };
+};
+
+// --- Scene inference ---
+
+const MOOD_LEXICON: [SceneContext['scoreStyle'], RegExp][] = [
+  ['tense', /\b(fear|afraid|dark|darkness|scream|blood|danger|thunder|trembl\w*|shadow\w*|coward|panic)\b/gi],
+  ['sad', /\b(tears?|cried|grief|alone|lost|mourn\w*|funeral|sorrow)\b/gi],
+  ['happy', /\b(laugh\w*|smil\w*|joy|bright|celebrat\w*|sunny|cheer\w*)\b/gi],
+  ['mysterious', /\b(strange|silent|mystery|secret|whisper\w*|fog|mist|unknown|old house)\b/gi],
+  ['romantic', /\b(kiss\w*|love|heart|embrace\w*|tender\w*)\b/gi],
+];
+
+const TIME_WORDS = ['midnight', 'night', 'dawn', 'morning', 'noon', 'afternoon', 'dusk', 'evening'];
+
+const inferScene = (text: string, segments: ParsedSegment[]): Omit<SceneContext, 'id'> => {
+  const narration = segments.filter(s => s.isNarrator).map(s => s.text).join(' ');
+  const lower = text.toLowerCase();
+
+  const moodScores = MOOD_LEXICON.map(([style, pattern]) => ({ style, score: (text.match(pattern) || []).length }));
+  const best = moodScores.reduce((a, b) => (b.score > a.score ? b : a));
+  const scoreStyle = best.score > 0 ? best.style : 'neutral';
+
+  const ambientSounds = findVocabulary(text, AMBIENT_VOCABULARY).slice(0, 3);
+  const bgNoiseType: SceneContext['bgNoiseType'] =
+    /\b(rain\w*|storm\w*|drizzl\w*|downpour)\b/.test(lower) ? 'rain'
+    : ambientSounds.includes('wind') ? 'wind'
+    : ambientSounds.includes('crowd') ? 'crowd'
+    : ambientSounds.includes('hum') ? 'machinery'
+    : 'none';
+  const roomToneType: SceneContext['roomToneType'] =
+    /\b(street|city|traffic|market|downtown)\b/.test(lower) ? 'city'
+    : /\b(forest|field|river|hill|garden|meadow|woods|beach|mountain)\b/.test(lower) ? 'nature'
+    : /\b(factory|engine|warehouse|machine\w*|mill)\b/.test(lower) ? 'industrial'
+    : 'quiet_room';
+
+  const place = narration.match(/\b(?:in|at|on|inside|into|across)\s+the\s+((?:[a-z]+\s)?[a-z]+)\b/);
+  const location = place ? place[1].split(' ').map(capitalize).join(' ') : 'Unknown';
+  const timeOfDay = TIME_WORDS.find(w => new RegExp(`\\b${w}\\b`).test(lower)) || '';
+
+  const firstPerson = (narration.match(/\b(I|my|me|myself)\b/g) || []).length;
+  const thirdPerson = (narration.match(/\b(he|she|his|her|they)\b/gi) || []).length;
+
+  return {
+    location,
+    timeOfDay: capitalize(timeOfDay),
+    mood: capitalize(scoreStyle === 'neutral' ? 'calm' : scoreStyle),
+    roomToneType,
+    bgNoiseType,
+    scoreStyle,
+    narrativePerspective: firstPerson > thirdPerson ? 'first_person' : 'third_person',
+    ambientSounds
+  };
+};
+
+interface SceneBlock {
+  paragraphs: string[];
+  firstSegment: number;
+}
+
+// Perspective is a property of the whole story, so short blocks don't get to flip it
+const inferScenes = (text: string, segments: ParsedSegment[], blocks: SceneBlock[]): SceneContext[] => {
+  const story = inferScene(text, segments);
+  const scenes: SceneContext[] = [];
+  blocks.forEach((block, b) => {
+    const blockSegments = segments.slice(block.firstSegment, blocks[b + 1]?.firstSegment ?? segments.length);
+    if (blockSegments.length === 0) return;
+    const inferred = blocks.length === 1
+      ? story
+      : { ...inferScene(block.paragraphs.join('\n'), blockSegments), narrativePerspective: story.narrativePerspective };
+    const id = `scene_${scenes.length}`;
+    scenes.push({ ...inferred, id });
+    blockSegments.forEach(seg => { seg.sceneId = id; });
+  });
+  return scenes.length > 0 ? scenes : [{ ...story, id: 'scene_0' }];
+};
@@ -0,0 +1,166 @@
+import { VoiceOption } from "../types";
+
+// Offline stand-in for the TTS model: a tiny deterministic formant synthesizer. It does not
+// pronounce words, but it produces speech-like audio with plausible rhythm, pitch contour and
+// per-voice timbre, so analysis -> synthesis -> mix -> export runs end to end without a network.
+
+export const LOCAL_SAMPLE_RATE = 16000;
+
+interface LocalVoiceParams {
+  pitch: number; // Hz
+  formantShift: number;
+  rate: number;
+  breathiness: number;
+}
+
+// Same ids as the Gemini catalog so casting carries over when switching providers
+const LOCAL_VOICE_PARAMS: Record<string, LocalVoiceParams> = {
+  Puck: { pitch: 135, formantShift: 1.0, rate: 1.05, breathiness: 0.05 },
+  Kore: { pitch: 205, formantShift: 1.15, rate: 0.95, breathiness: 0.08 },
+  Fenrir: { pitch: 92, formantShift: 0.9, rate: 0.9, breathiness: 0.03 },
+  Charon: { pitch: 108, formantShift: 0.95, rate: 0.92, breathiness: 0.14 },
+  Zephyr: { pitch: 228, formantShift: 1.2, rate: 1.0, breathiness: 0.16 },
+};
+
+export const LOCAL_VOICES: VoiceOption[] = [
+  { id: 'Puck', gender: 'male', style: 'Offline tenor' },
+  { id: 'Kore', gender: 'female', style: 'Offline alto' },
+  { id: 'Fenrir', gender: 'male', style: 'Offline bass' },
+  { id: 'Charon', gender: 'male', style: 'Offline baritone, breathy' },
+  { id: 'Zephyr', gender: 'female', style: 'Offline soprano, airy' },
+];
+
+const VOWEL_FORMANTS: Record<string, [number, number, number]> = {
+  a: [730, 1090, 2440],
+  e: [530, 1840, 2480],
+  i: [270, 2290, 3010],
+  o: [570, 840, 2410],
+  u: [300, 870, 2240],
+  y: [400, 1900, 2600],
+};
+const FORMANT_BANDWIDTHS: [number, number, number] = [60, 90, 120];
+const FRICATIVES = new Set(['s', 'z', 'f', 'h', 'c', 'x', 'v', 'j']);
+
+interface Delivery {
+  pitchScale: number;
+  rateScale: number;
+  gain: number;
+  whisper: boolean;
+  vibrato: number; // depth as fraction of pitch
+}
+
+const readDelivery = (context: string): Delivery => {
+  const c = context.toLowerCase();
+  const delivery: Delivery = { pitchScale: 1, rateScale: 1, gain: 0.8, whisper: false, vibrato: 0 };
+  if (/whisper|hush|murmur/.test(c)) delivery.whisper = true;
+  if (/angry|shout|furious|yell|excited|urgent/.test(c)) Object.assign(delivery, { pitchScale: 1.15, rateScale: 1.12, gain: 1 });
+  if (/sad|tired|grief|somber|weary/.test(c)) Object.assign(delivery, { pitchScale: 0.9, rateScale: 0.85, gain: 0.65 });
+  if (/fear|scared|trembl|nervous|afraid/.test(c)) delivery.vibrato = 0.04;
+  return delivery;
+};
+
+// mulberry32: same text + voice + context always renders the same samples
+const seededRandom = (seedText: string) => {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Klatt-style two-pole resonator
+const resonator = (freq: number, bandwidth: number) => {
+  const T = 1 / LOCAL_SAMPLE_RATE;
+  const C = -Math.exp(-2 * Math.PI * bandwidth * T);
+  const B = 2 * Math.exp(-Math.PI * bandwidth * T) * Math.cos(2 * Math.PI * freq * T);
+  const A = 1 - B - C;
+  let y1 = 0;
+  let y2 = 0;
+  return (x: number) => {
+    const y = A * x + B * y1 + C * y2;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+};
+
+const envelope = (i: number, n: number, attack: number, release: number) =>
+  Math.min(1, i / attack, (n - i) / release);
+
+const PAUSES: Record<string, number> = { ',': 0.18, ';': 0.22, ':': 0.22, '-': 0.12, '—': 0.2, '–': 0.15, '.': 0.35, '!': 0.35, '?': 0.38 };
+
+export const synthesizeLocalSpeech = async (text: string, voiceId: string, context: string): Promise<Int16Array> => {
+  const voice = LOCAL_VOICE_PARAMS[voiceId] || LOCAL_VOICE_PARAMS.Puck;
+  const delivery = readDelivery(context);
+  const random = seededRandom(`${voiceId}|${context}|${text}`);
+  const rate = voice.rate * delivery.rateScale;
+  const out: number[] = [];
+
+  const pushSilence = (seconds: number) => {
+    for (let i = 0, n = Math.floor(seconds * LOCAL_SAMPLE_RATE); i < n; i++) out.push(0);
+  };
+
+  const pushConsonant = (letter: string) => {
+    const fricative = FRICATIVES.has(letter);
+    const n = Math.floor((fricative ? 0.06 : 0.03) / rate * LOCAL_SAMPLE_RATE);
+    const filter = resonator(fricative ? 4200 * voice.formantShift : 1500, fricative ? 1800 : 900);
+    for (let i = 0; i < n; i++) {
+      out.push(filter(random() * 2 - 1) * (fricative ? 0.35 : 0.5) * envelope(i, n, 40, 80));
+    }
+  };
+
+  let phase = 0;
+  const pushVowel = (vowel: string, seconds: number, pitch: number) => {
+    const formants = VOWEL_FORMANTS[vowel] || VOWEL_FORMANTS.e;
+    const filters = formants.map((f, k) => resonator(f * voice.formantShift, FORMANT_BANDWIDTHS[k]));
+    const n = Math.floor(seconds * LOCAL_SAMPLE_RATE);
+    const breath = delivery.whisper ? 1 : voice.breathiness;
+    for (let i = 0; i < n; i++) {
+      const f0 = pitch * (1 + delivery.vibrato * Math.sin(2 * Math.PI * 6 * i / LOCAL_SAMPLE_RATE));
+      phase = (phase + f0 / LOCAL_SAMPLE_RATE) % 1;
+      const voiced = delivery.whisper ? 0 : (1 - 2 * phase);
+      const source = voiced * (1 - breath) + (random() * 2 - 1) * breath;
+      const shaped = filters.reduce((x, filter) => filter(x), source);
+      out.push(shaped * envelope(i, n, 160, 320));
+    }
+  };
+
+  const sentences = text.split(/(?<=[.!?])\s+/).filter(s => s.trim());
+  sentences.forEach(sentence => {
+    const tokens: string[] = sentence.match(/[\p{L}\p{N}'’]+|[.,!?;:—–-]/gu) || [];
+    const totalSyllables = Math.max(1, tokens.reduce((acc, t) => acc + (t.toLowerCase().match(/[aeiouy]+/g)?.length || 0), 0));
+    const isQuestion = sentence.trim().endsWith('?');
+    let syllableIndex = 0;
+
+    tokens.forEach(token => {
+      if (PAUSES[token] !== undefined) {
+        pushSilence(PAUSES[token] / rate);
+        return;
+      }
+      const word = token.toLowerCase();
+      const syllables = word.match(/[aeiouy]+/g) || ['e'];
+      const onsets = word.split(/[aeiouy]+/);
+      syllables.forEach((syllable, s) => {
+        const onset = onsets[s];
+        if (onset) pushConsonant(onset[onset.length - 1]);
+        // Declination across the sentence, with a rise on the last syllables of a question
+        const progress = syllableIndex / totalSyllables;
+        const contour = isQuestion && progress > 0.75 ? 1 + (progress - 0.75) * 1.2 : 1.08 - 0.16 * progress;
+        const stress = s === 0 ? 1.25 : 1;
+        pushVowel(syllable[0], (0.1 * stress + random() * 0.03) / rate, voice.pitch * delivery.pitchScale * contour * (0.98 + random() * 0.04));
+        syllableIndex++;
+      });
+      const coda = onsets[onsets.length - 1];
+      if (coda) pushConsonant(coda[coda.length - 1]);
+      pushSilence(0.035 / rate);
+    });
+  });
+
+  let peak = 0;
+  for (const v of out) peak = Math.max(peak, Math.abs(v));
+  const scale = peak > 0 ? (delivery.gain * 0.9) / peak : 0;
+  return Int16Array.from(out, v => Math.round(v * scale * 32767));
+};
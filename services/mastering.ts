@@ -0,0 +1,270 @@
+import { LoudnessMeasurement, MasteringCheck, MasteringReport, MasteringTargetId } from "../types";
+
+// Offline mastering for the rendered mix: measure (ITU-R BS.1770 loudness, true peak, noise floor),
+// apply one static gain to reach the target, catch what overshoots with a look-ahead limiter, then
+// measure again and check the result against the target's delivery spec.
+
+export interface MasteringTarget {
+  id: MasteringTargetId;
+  label: string;
+  loudness: { metric: 'rms' | 'lufs', target: number, min: number, max: number };
+  peakCeilingDb: number;
+  noiseFloorMaxDb?: number;
+}
+
+export const MASTERING_TARGETS: Record<MasteringTargetId, MasteringTarget> = {
+  acx: { id: 'acx', label: 'ACX (Audible)', loudness: { metric: 'rms', target: -20, min: -23, max: -18 }, peakCeilingDb: -3, noiseFloorMaxDb: -60 },
+  podcast: { id: 'podcast', label: 'Podcast (-16 LUFS)', loudness: { metric: 'lufs', target: -16, min: -17, max: -15 }, peakCeilingDb: -1 },
+  ebu: { id: 'ebu', label: 'Broadcast (EBU R128)', loudness: { metric: 'lufs', target: -23, min: -24, max: -22 }, peakCeilingDb: -1 }
+};
+
+const SILENCE_DB = -120;
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(amplitude)) : SILENCE_DB;
+const powerToDb = (power: number) => power > 0 ? Math.max(SILENCE_DB, 10 * Math.log10(power)) : SILENCE_DB;
+
+const channelsOf = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+// --- Measurement ---
+
+interface Biquad { b0: number, b1: number, b2: number, a1: number, a2: number }
+
+// BS.1770 K-weighting (head shelf + RLB high-pass), derived for any sample rate as libebur128 does
+const kWeighting = (sampleRate: number): Biquad[] => {
+  let f0 = 1681.974450955533;
+  const G = 3.999843853973347;
+  let Q = 0.7071752369554196;
+  let K = Math.tan(Math.PI * f0 / sampleRate);
+  const Vh = Math.pow(10, G / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + Vb * K / Q + K * K) / a0,
+    b1: 2 * (K * K - Vh) / a0,
+    b2: (Vh - Vb * K / Q + K * K) / a0,
+    a1: 2 * (K * K - 1) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+  f0 = 38.13547087602444;
+  Q = 0.5003270373238773;
+  K = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + K / Q + K * K;
+  const highpass = { b0: 1, b1: -2, b2: 1, a1: 2 * (K * K - 1) / a0, a2: (1 - K / Q + K * K) / a0 };
+  return [shelf, highpass];
+};
+
+// Mean K-weighted power of every 100 ms step, summed over channels (all weighted 1: no surrounds here)
+const weightedStepPowers = (channels: Float32Array[], sampleRate: number) => {
+  const step = Math.round(sampleRate * 0.1);
+  const steps = Math.floor(channels[0].length / step);
+  const powers = new Float64Array(steps);
+  const filters = kWeighting(sampleRate);
+  channels.forEach(data => {
+    const state = filters.map(() => ({ x1: 0, x2: 0, y1: 0, y2: 0 }));
+    for (let s = 0; s < steps; s++) {
+      let sum = 0;
+      for (let i = s * step; i < (s + 1) * step; i++) {
+        let v = data[i];
+        for (let f = 0; f < filters.length; f++) {
+          const q = filters[f], st = state[f];
+          const y = q.b0 * v + q.b1 * st.x1 + q.b2 * st.x2 - q.a1 * st.y1 - q.a2 * st.y2;
+          st.x2 = st.x1; st.x1 = v; st.y2 = st.y1; st.y1 = y;
+          v = y;
+        }
+        sum += v * v;
+      }
+      powers[s] += sum / step;
+    }
+  });
+  return powers;
+};
+
+// 400 ms blocks with 75% overlap, absolute gate at -70 LUFS, relative gate 10 LU below the mean
+const integratedLoudness = (channels: Float32Array[], sampleRate: number) => {
+  const steps = weightedStepPowers(channels, sampleRate);
+  const blocks: number[] = [];
+  for (let s = 0; s + 4 <= steps.length; s++) blocks.push((steps[s] + steps[s + 1] + steps[s + 2] + steps[s + 3]) / 4);
+  const lufs = (power: number) => -0.691 + powerToDb(power);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / Math.max(1, values.length);
+  const absolute = blocks.filter(p => lufs(p) > -70);
+  if (absolute.length === 0) return SILENCE_DB;
+  const relativeGate = lufs(mean(absolute)) - 10;
+  const gated = absolute.filter(p => lufs(p) > relativeGate);
+  return lufs(mean(gated));
+};
+
+const rmsDb = (channels: Float32Array[]) => {
+  let sum = 0;
+  channels.forEach(data => { for (let i = 0; i < data.length; i++) sum += data[i] * data[i]; });
+  return powerToDb(sum / (channels.length * channels[0].length));
+};
+
+// 4x oversampling with a windowed-sinc interpolator, but only around samples within 4 dB of the
+// sample peak: inter-sample overs never exceed that in practice, and it skips nearly all the work
+const TAPS = 12;
+const PHASES = 4;
+const interpolator = (() => {
+  const kernel: number[][] = [];
+  for (let p = 1; p < PHASES; p++) {
+    const frac = p / PHASES;
+    kernel.push(Array.from({ length: TAPS }, (_, k) => {
+      const x = k - TAPS / 2 + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * x / (TAPS / 2));
+      return sinc * window;
+    }));
+  }
+  return kernel;
+})();
+
+const truePeakDb = (channels: Float32Array[]) => {
+  let samplePeak = 0;
+  channels.forEach(data => { for (let i = 0; i < data.length; i++) samplePeak = Math.max(samplePeak, Math.abs(data[i])); });
+  const threshold = samplePeak * Math.pow(10, -4 / 20);
+  let peak = samplePeak;
+  channels.forEach(data => {
+    for (let i = TAPS / 2; i < data.length - TAPS / 2; i++) {
+      if (Math.abs(data[i]) < threshold && Math.abs(data[i + 1]) < threshold) continue;
+      interpolator.forEach(kernel => {
+        let v = 0;
+        for (let k = 0; k < TAPS; k++) v += data[i - TAPS / 2 + 1 + k] * kernel[k];
+        peak = Math.max(peak, Math.abs(v));
+      });
+    }
+  });
+  return toDb(peak);
+};
+
+// Level of the quietest tenth of 50 ms windows: the room tone between lines
+const noiseFloorDb = (channels: Float32Array[], sampleRate: number) => {
+  const window = Math.round(sampleRate * 0.05);
+  const count = Math.floor(channels[0].length / window);
+  if (count === 0) return SILENCE_DB;
+  const levels: number[] = [];
+  for (let w = 0; w < count; w++) {
+    let sum = 0;
+    channels.forEach(data => { for (let i = w * window; i < (w + 1) * window; i++) sum += data[i] * data[i]; });
+    levels.push(powerToDb(sum / (window * channels.length)));
+  }
+  levels.sort((a, b) => a - b);
+  return levels[Math.floor(levels.length * 0.1)];
+};
+
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMeasurement => {
+  const channels = channelsOf(buffer);
+  return {
+    integratedLufs: integratedLoudness(channels, buffer.sampleRate),
+    rmsDb: rmsDb(channels),
+    truePeakDb: truePeakDb(channels),
+    noiseFloorDb: noiseFloorDb(channels, buffer.sampleRate)
+  };
+};
+
+// --- Processing ---
+
+const applyGain = (buffer: AudioBuffer, gainDb: number): AudioBuffer => {
+  const gain = Math.pow(10, gainDb / 20);
+  const out = new AudioBuffer({ length: buffer.length, numberOfChannels: buffer.numberOfChannels, sampleRate: buffer.sampleRate });
+  channelsOf(buffer).forEach((data, c) => {
+    const dst = out.getChannelData(c);
+    for (let i = 0; i < data.length; i++) dst[i] = data[i] * gain;
+  });
+  return out;
+};
+
+// Linked-channel look-ahead limiter, in place. The required gain is min-filtered over the
+// look-ahead and then averaged over the same span, which ramps down in time for every peak
+// without overshooting it; release is a one-pole recovery. Returns the deepest reduction in dB.
+const limit = (buffer: AudioBuffer, ceilingDb: number): number => {
+  const channels = channelsOf(buffer);
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const n = buffer.length;
+  const lookahead = Math.max(1, Math.round(buffer.sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+  const release = 1 - Math.exp(-1 / (buffer.sampleRate * LIMITER_RELEASE_SECONDS));
+
+  const required = new Float32Array(n);
+  let needsLimiting = false;
+  for (let i = 0; i < n; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    required[i] = peak > ceiling ? ceiling / peak : 1;
+    if (required[i] < 1) needsLimiting = true;
+  }
+  if (!needsLimiting) return 0;
+
+  // Sliding minimum over [i, i + lookahead] with a monotonic deque
+  const minimum = new Float32Array(n);
+  const deque = new Int32Array(n);
+  let head = 0, tail = 0;
+  for (let i = n - 1; i >= 0; i--) {
+    while (tail > head && required[deque[tail - 1]] >= required[i]) tail--;
+    deque[tail++] = i;
+    while (deque[head] > i + lookahead) head++;
+    minimum[i] = required[deque[head]];
+  }
+
+  // Moving average over [i - lookahead, i]; before the start counts as unity gain
+  let deepest = 1;
+  let gain = 1;
+  let windowSum = lookahead;
+  for (let i = 0; i < n; i++) {
+    windowSum += minimum[i];
+    const smoothed = Math.min(1, windowSum / (lookahead + 1));
+    windowSum -= i >= lookahead ? minimum[i - lookahead] : 1;
+    gain = smoothed < gain ? smoothed : gain + (smoothed - gain) * release;
+    deepest = Math.min(deepest, gain);
+    for (const data of channels) data[i] *= gain;
+  }
+  return toDb(deepest);
+};
+
+const checkTarget = (target: MasteringTarget, m: LoudnessMeasurement): MasteringCheck[] => {
+  const { metric, min, max } = target.loudness;
+  const loudness = metric === 'rms' ? m.rmsDb : m.integratedLufs;
+  const checks: MasteringCheck[] = [
+    {
+      measure: metric === 'rms' ? 'rmsDb' : 'integratedLufs',
+      label: metric === 'rms' ? 'RMS level' : 'Integrated loudness',
+      value: loudness,
+      requirement: `${min} to ${max} ${metric === 'rms' ? 'dB' : 'LUFS'}`,
+      pass: loudness >= min && loudness <= max
+    },
+    { measure: 'truePeakDb', label: 'True peak', value: m.truePeakDb, requirement: `≤ ${target.peakCeilingDb} dBTP`, pass: m.truePeakDb <= target.peakCeilingDb }
+  ];
+  if (target.noiseFloorMaxDb !== undefined) {
+    checks.push({ measure: 'noiseFloorDb', label: 'Noise floor', value: m.noiseFloorDb, requirement: `≤ ${target.noiseFloorMaxDb} dB`, pass: m.noiseFloorDb <= target.noiseFloorMaxDb });
+  }
+  return checks;
+};
+
+export const masterMix = (mix: AudioBuffer, targetId: MasteringTargetId): { buffer: AudioBuffer, report: MasteringReport } => {
+  const target = MASTERING_TARGETS[targetId];
+  const before = measureLoudness(mix);
+  const measured = target.loudness.metric === 'rms' ? before.rmsDb : before.integratedLufs;
+  // A silent mix has nothing to normalize
+  const gainDb = measured <= SILENCE_DB ? 0 : target.loudness.target - measured;
+  const buffer = applyGain(mix, gainDb);
+
+  // The limiter works on samples, so it aims a little under the ceiling to leave room for inter-sample
+  // peaks; anything still over after measuring comes off as a final static trim
+  let limitedDb = limit(buffer, target.peakCeilingDb - 0.5);
+  let after = measureLoudness(buffer);
+  if (after.truePeakDb > target.peakCeilingDb) {
+    const trimDb = target.peakCeilingDb - after.truePeakDb - 0.05;
+    const trim = Math.pow(10, trimDb / 20);
+    channelsOf(buffer).forEach(data => {
+      for (let i = 0; i < data.length; i++) data[i] *= trim;
+    });
+    limitedDb += trimDb;
+    after = measureLoudness(buffer);
+  }
+
+  const checks = checkTarget(target, after);
+  return {
+    buffer,
+    report: { target: targetId, before, after, gainDb, limitedDb, checks, pass: checks.every(c => c.pass) }
+  };
+};
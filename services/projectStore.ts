@@ -0,0 +1,141 @@
+import { AudioTracks, Project, ProjectSummary, SerializedAudioBuffer, SerializedTracks } from "../types";
+import { migrateAnalysis } from './scenes';
+
+const DB_NAME = 'voxnovel';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const AUDIO = 'audio'; // Rendered tracks live apart so listing projects never loads audio
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(AUDIO)) db.createObjectStore(AUDIO);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- AudioBuffer (de)serialization ---
+
+const serializeBuffer = (buffer: AudioBuffer): SerializedAudioBuffer => ({
+  sampleRate: buffer.sampleRate,
+  length: buffer.length,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice())
+});
+
+const deserializeBuffer = (data: SerializedAudioBuffer): AudioBuffer => {
+  const buffer = new AudioBuffer({ length: data.length, numberOfChannels: data.channels.length, sampleRate: data.sampleRate });
+  data.channels.forEach((channel, c) => buffer.copyToChannel(channel, c));
+  return buffer;
+};
+
+const serializeTracks = (tracks: AudioTracks): SerializedTracks => ({
+  dialogue: serializeBuffer(tracks.dialogue),
+  score: serializeBuffer(tracks.score),
+  ambience: serializeBuffer(tracks.ambience),
+  sfx: serializeBuffer(tracks.sfx),
+  duration: tracks.duration,
+  timings: tracks.timings
+});
+
+const deserializeTracks = (data: SerializedTracks): AudioTracks => ({
+  dialogue: deserializeBuffer(data.dialogue),
+  score: deserializeBuffer(data.score),
+  ambience: deserializeBuffer(data.ambience),
+  sfx: deserializeBuffer(data.sfx),
+  duration: data.duration,
+  timings: data.timings
+});
+
+// AudioBuffers on segments aren't structured-cloneable; the rendered tracks are stored instead
+const storableProject = (project: Project): Project => ({
+  ...project,
+  analysis: project.analysis && {
+    ...project.analysis,
+    segments: project.analysis.segments.map(({ audioBuffer, ...seg }) => seg)
+  }
+});
+
+const toSummary = ({ id, name, createdAt, updatedAt, hasAudio }: Project): ProjectSummary =>
+  ({ id, name, createdAt, updatedAt, hasAudio });
+
+export const createProjectId = () => `proj_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDB();
+  const projects = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<Project[]>);
+  return projects.map(toSummary).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = async (project: Project, tracks: AudioTracks | null): Promise<Project> => {
+  const db = await openDB();
+  const saved: Project = { ...storableProject(project), hasAudio: !!tracks, updatedAt: Date.now() };
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).put(saved);
+  if (tracks) tx.objectStore(AUDIO).put(serializeTracks(tracks), project.id);
+  else tx.objectStore(AUDIO).delete(project.id);
+  await transactionDone(tx);
+  return saved;
+};
+
+export const loadProject = async (id: string): Promise<{ project: Project, tracks: AudioTracks | null }> => {
+  const db = await openDB();
+  const tx = db.transaction([PROJECTS, AUDIO]);
+  const [project, audio] = await Promise.all([
+    requestToPromise(tx.objectStore(PROJECTS).get(id) as IDBRequest<Project | undefined>),
+    requestToPromise(tx.objectStore(AUDIO).get(id) as IDBRequest<SerializedTracks | undefined>)
+  ]);
+  if (!project) throw new Error(`Project ${id} not found`);
+  if (project.analysis) project.analysis = migrateAnalysis(project.analysis);
+  return { project, tracks: audio ? deserializeTracks(audio) : null };
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectSummary> => {
+  const db = await openDB();
+  const readTx = db.transaction([PROJECTS, AUDIO]);
+  const [project, audio] = await Promise.all([
+    requestToPromise(readTx.objectStore(PROJECTS).get(id) as IDBRequest<Project | undefined>),
+    requestToPromise(readTx.objectStore(AUDIO).get(id) as IDBRequest<SerializedTracks | undefined>)
+  ]);
+  if (!project) throw new Error(`Project ${id} not found`);
+
+  const now = Date.now();
+  const copy: Project = { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).put(copy);
+  if (audio) tx.objectStore(AUDIO).put(audio, copy.id);
+  await transactionDone(tx);
+  return toSummary(copy);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([PROJECTS, AUDIO], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(AUDIO).delete(id);
+  await transactionDone(tx);
+};
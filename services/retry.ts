@@ -0,0 +1,57 @@
+// Retry with exponential backoff for network calls. A rate-limit response pauses every caller
+// sharing this module, not just the one that hit it, so a burst of queued TTS jobs backs off together.
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+let cooldownUntil = 0;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const errorText = (error: unknown) => {
+  if (error instanceof Error) return `${error.message} ${'status' in error ? error.status ?? '' : ''}`;
+  try {
+    return JSON.stringify(error);
+  } catch (err) {
+    return String(error);
+  }
+};
+
+export const isRateLimitError = (error: unknown) =>
+  /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota/i.test(errorText(error));
+
+// Client errors other than rate limits (bad request, auth, safety blocks) won't improve on retry
+export const isRetryableError = (error: unknown) => {
+  const text = errorText(error);
+  if (isRateLimitError(error)) return true;
+  if (/\b(400|401|403|404)\b|INVALID_ARGUMENT|PERMISSION_DENIED|API key/i.test(text)) return false;
+  return true;
+};
+
+// Honors a server hint like `retryDelay: "17s"` or "retry in 17.2s" when the error carries one
+const suggestedDelayMs = (error: unknown) => {
+  const match = errorText(error).match(/retry(?:Delay)?["':\s]*(?:in\s+)?"?(\d+(?:\.\d+)?)\s*s/i);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 4, baseDelayMs = 1000, maxDelayMs = 30000, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    const wait = cooldownUntil - Date.now();
+    if (wait > 0) await sleep(wait);
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      const delay = isRateLimitError(error) ? Math.max(backoff, suggestedDelayMs(error) ?? baseDelayMs * 4) : backoff;
+      if (isRateLimitError(error)) cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+      onRetry?.(attempt + 1, delay, error);
+      await sleep(delay);
+    }
+  }
+};
@@ -0,0 +1,161 @@
+import { CustomImpulse, ReverbPresetId, SceneContext } from "../types";
+
+// Room reverb for character dialogue. Each scene plays in a preset picked from its location (or
+// room tone when the location says nothing), unless the user chose a preset or uploaded impulse.
+
+export interface ReverbPreset {
+  id: ReverbPresetId;
+  label: string;
+  duration: number; // Seconds of tail
+  decay: number; // Envelope exponent: higher dies away faster
+  preDelay: number; // Seconds before the diffuse tail starts
+  reflections: { time: number, gain: number }[]; // Discrete early echoes off nearby surfaces
+  damping: number; // Hz the tail has darkened to by its end
+  wet: number; // Scales each character's send; 1 is the old single room
+}
+
+export const REVERB_PRESETS: Record<ReverbPresetId, ReverbPreset> = {
+  small_room: {
+    id: 'small_room', label: 'Small room', duration: 0.6, decay: 4, preDelay: 0.004,
+    reflections: [{ time: 0.007, gain: 0.5 }, { time: 0.013, gain: 0.35 }, { time: 0.019, gain: 0.25 }],
+    damping: 5000, wet: 0.8
+  },
+  hall: {
+    id: 'hall', label: 'Hall', duration: 2.2, decay: 2.6, preDelay: 0.018,
+    reflections: [{ time: 0.021, gain: 0.4 }, { time: 0.034, gain: 0.3 }],
+    damping: 4500, wet: 1.2
+  },
+  cathedral: {
+    id: 'cathedral', label: 'Cathedral', duration: 4.8, decay: 2, preDelay: 0.045,
+    reflections: [{ time: 0.05, gain: 0.35 }, { time: 0.083, gain: 0.25 }],
+    damping: 3000, wet: 1.6
+  },
+  outdoors: {
+    id: 'outdoors', label: 'Outdoors', duration: 0.35, decay: 6, preDelay: 0,
+    reflections: [{ time: 0.12, gain: 0.12 }], // One faint slap off a distant wall
+    damping: 9000, wet: 0.35
+  },
+  cave: {
+    id: 'cave', label: 'Cave', duration: 3.2, decay: 2.2, preDelay: 0.03,
+    reflections: [{ time: 0.09, gain: 0.45 }, { time: 0.19, gain: 0.3 }, { time: 0.31, gain: 0.2 }],
+    damping: 2200, wet: 1.5
+  },
+  car: {
+    id: 'car', label: 'Car interior', duration: 0.15, decay: 5, preDelay: 0.0015,
+    reflections: [{ time: 0.003, gain: 0.6 }, { time: 0.005, gain: 0.45 }],
+    damping: 3500, wet: 0.7
+  }
+};
+
+// Checked in order: the most distinctive spaces first, ordinary rooms last
+const LOCATION_PRESETS: [ReverbPresetId, RegExp][] = [
+  ['car', /\b(car|cars|taxi|cab|truck|van|limo|limousine|sedan|jeep|cockpit|carriage|coach)\b/],
+  ['cave', /\b(cave|caves|cavern|tunnel|mine|sewer|sewers|crypt|dungeon|catacombs?|grotto|bunker)\b/],
+  ['cathedral', /\b(cathedral|church|chapel|temple|basilica|abbey|mosque|synagogue|tomb|mausoleum|throne room)\b/],
+  ['hall', /\b(hall|ballroom|auditorium|theat(er|re)|station|warehouse|gym|gymnasium|museum|lobby|atrium|courtroom|hangar|arena|banquet)\b/],
+  ['outdoors', /\b(outside|outdoors?|forest|woods|field|fields|street|road|garden|beach|park|meadow|mountain|desert|sea|shore|deck|yard|alley|square|market|village|jungle|river|lake|camp|rooftop)\b/],
+  ['small_room', /\b(room|bedroom|kitchen|office|study|bathroom|closet|cell|cabin|apartment|flat|house|home|shop|bar|pub|cafe|library|attic|basement)\b/]
+];
+
+const ROOM_TONE_PRESETS: Record<SceneContext['roomToneType'], ReverbPresetId> = {
+  quiet_room: 'small_room',
+  nature: 'outdoors',
+  city: 'outdoors',
+  industrial: 'hall',
+  silence: 'small_room'
+};
+
+export const pickReverbPreset = (scene: Pick<SceneContext, 'location' | 'roomToneType'>): ReverbPresetId => {
+  const location = scene.location.toLowerCase();
+  const match = LOCATION_PRESETS.find(([, pattern]) => pattern.test(location));
+  return match ? match[0] : ROOM_TONE_PRESETS[scene.roomToneType] ?? 'small_room';
+};
+
+const isPreset = (id: string): id is ReverbPresetId => id in REVERB_PRESETS;
+
+// The preset or impulse a scene actually plays in. An override pointing at a deleted impulse
+// falls back to the automatic pick rather than leaving the scene dry.
+export const sceneReverb = (scene: SceneContext, impulses: CustomImpulse[] = []): string => {
+  if (scene.reverb && (isPreset(scene.reverb) || impulses.some(i => i.id === scene.reverb))) return scene.reverb;
+  return pickReverbPreset(scene);
+};
+
+export const reverbLabel = (id: string, impulses: CustomImpulse[] = []): string =>
+  isPreset(id) ? REVERB_PRESETS[id].label : impulses.find(i => i.id === id)?.name ?? id;
+
+// Uploaded impulses carry their own level, so they get the same send as the old room
+export const reverbWet = (id: string): number => isPreset(id) ? REVERB_PRESETS[id].wet : 1;
+
+// --- Impulse responses ---
+
+const impulseCache = new Map<string, AudioBuffer>();
+
+const synthesizeImpulse = (preset: ReverbPreset, sampleRate: number, channels: number): AudioBuffer => {
+  const length = Math.max(1, Math.floor(sampleRate * preset.duration));
+  const impulse = new AudioBuffer({ length, numberOfChannels: channels, sampleRate });
+  const preDelay = Math.floor(preset.preDelay * sampleRate);
+  const brightest = Math.min(16000, sampleRate * 0.45);
+
+  for (let c = 0; c < channels; c++) {
+    const data = impulse.getChannelData(c);
+    // Independent noise per channel decorrelates the sides, which is what makes a room sound wide
+    let lowpassed = 0;
+    for (let i = preDelay; i < length; i++) {
+      const n = (i - preDelay) / Math.max(1, length - preDelay);
+      // One-pole lowpass whose cutoff slides down the tail: air and walls eat the highs first
+      const cutoff = brightest * Math.pow(preset.damping / brightest, n);
+      const coeff = 1 - Math.exp(-2 * Math.PI * cutoff / sampleRate);
+      lowpassed += coeff * ((Math.random() * 2 - 1) - lowpassed);
+      data[i] = Math.pow(1 - n, preset.decay) * lowpassed;
+    }
+    // Early reflections land a touch later on the right so they don't collapse to the centre
+    preset.reflections.forEach(r => {
+      const at = Math.floor(r.time * (1 + 0.08 * c) * sampleRate);
+      if (at < length) data[at] += r.gain * (c % 2 === 0 ? 1 : -1);
+    });
+  }
+  return impulse;
+};
+
+const customImpulseBuffer = (impulse: CustomImpulse, channels: number): AudioBuffer => {
+  const { audio } = impulse;
+  const buffer = new AudioBuffer({ length: audio.length, numberOfChannels: channels, sampleRate: audio.sampleRate });
+  for (let c = 0; c < channels; c++) buffer.copyToChannel(audio.channels[Math.min(c, audio.channels.length - 1)], c);
+  return buffer;
+};
+
+// Built once per preset, rate and channel count; a convolver needs the impulse at its own rate
+export const getImpulseResponse = (id: string, sampleRate: number, channels: number, impulses: CustomImpulse[] = []): AudioBuffer => {
+  const key = `${id}:${sampleRate}:${channels}`;
+  const cached = impulseCache.get(key);
+  if (cached) return cached;
+
+  const custom = impulses.find(i => i.id === id);
+  const buffer = custom && custom.audio.sampleRate === sampleRate
+    ? customImpulseBuffer(custom, channels)
+    : synthesizeImpulse(REVERB_PRESETS[isPreset(id) ? id : 'small_room'], sampleRate, channels);
+  impulseCache.set(key, buffer);
+  return buffer;
+};
+
+const MAX_IMPULSE_SECONDS = 8;
+
+let impulseCounter = 0;
+
+// Decodes an uploaded WAV (or anything the browser can decode) at the render rate. Mono and
+// stereo impulses are kept as they are; extra channels beyond two are dropped.
+export const decodeImpulse = async (file: File, sampleRate: number): Promise<CustomImpulse> => {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+  const length = Math.min(decoded.length, Math.floor(MAX_IMPULSE_SECONDS * sampleRate));
+  if (length === 0) throw new Error('Impulse response is empty');
+  return {
+    id: `ir_${Date.now().toString(36)}_${impulseCounter++}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    audio: {
+      sampleRate,
+      length,
+      channels: Array.from({ length: Math.min(2, decoded.numberOfChannels) }, (_, c) => decoded.getChannelData(c).slice(0, length))
+    }
+  };
+};
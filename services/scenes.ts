@@ -0,0 +1,106 @@
+import { AnalysisResult, ParsedSegment, SceneContext } from "../types";
+
+// Scene bookkeeping for the timeline. Segments point at scenes by id; a segment without one
+// (hand-inserted, or a scene that was since merged away) plays in the scene before it.
+
+// A line that marks a scene break in prose: "* * *", "---", "#" or "~~~"
+export const SCENE_BREAK = /^\s*(\*\s*){3,}$|^\s*(-\s*){3,}$|^\s*#\s*$|^\s*~+\s*$/;
+
+let sceneCounter = 0;
+export const createSceneId = () => `scene_${Date.now().toString(36)}_${sceneCounter++}`;
+
+export const DEFAULT_SCENE: Omit<SceneContext, 'id'> = {
+  location: 'Unknown',
+  timeOfDay: '',
+  mood: 'Neutral',
+  roomToneType: 'silence',
+  bgNoiseType: 'none',
+  scoreStyle: 'neutral',
+  narrativePerspective: 'third_person',
+  ambientSounds: []
+};
+
+export const segmentSceneIds = (segments: ParsedSegment[], scenes: SceneContext[]): string[] => {
+  const known = new Set(scenes.map(s => s.id));
+  let current = scenes[0]?.id ?? '';
+  return segments.map(seg => {
+    if (seg.sceneId && known.has(seg.sceneId)) current = seg.sceneId;
+    return current;
+  });
+};
+
+export const sceneOfSegment = (analysis: AnalysisResult, index: number): SceneContext => {
+  const id = segmentSceneIds(analysis.segments.slice(0, index + 1), analysis.scenes)[index];
+  return analysis.scenes.find(s => s.id === id) ?? analysis.scenes[0];
+};
+
+// Story-level facts (perspective, protagonist) come from the opening scene
+export const primaryScene = (analysis: AnalysisResult): SceneContext =>
+  analysis.scenes[0] ?? { ...DEFAULT_SCENE, id: 'scene_0' };
+
+export interface SceneRegion {
+  scene: SceneContext;
+  start: number; // Seconds
+  end: number;
+}
+
+// Consecutive segments in the same scene form one region; the first region starts at zero
+// and each region runs until the next begins, so regions tile the whole timeline
+export const sceneRegions = (
+  segments: ParsedSegment[],
+  scenes: SceneContext[],
+  startTimes: number[],
+  totalDuration: number
+): SceneRegion[] => {
+  const ids = segmentSceneIds(segments, scenes);
+  const regions: SceneRegion[] = [];
+  ids.forEach((id, i) => {
+    const last = regions[regions.length - 1];
+    if (last && last.scene.id === id) return;
+    const scene = scenes.find(s => s.id === id);
+    if (!scene) return;
+    const start = regions.length === 0 ? 0 : startTimes[i];
+    if (last) last.end = start;
+    regions.push({ scene, start, end: totalDuration });
+  });
+  if (regions.length === 0) regions.push({ scene: primaryScene({ segments, scenes }), start: 0, end: totalDuration });
+  return regions;
+};
+
+// Projects saved before scenes existed carry a single `scene`
+export const migrateAnalysis = (analysis: AnalysisResult & { scene?: Omit<SceneContext, 'id'> & { id?: string } }): AnalysisResult => {
+  const { scene, ...rest } = analysis;
+  if (rest.scenes?.length) return rest;
+  const only: SceneContext = { ...DEFAULT_SCENE, ...scene, id: scene?.id || 'scene_0' };
+  return { ...rest, scenes: [only], segments: rest.segments.map(seg => ({ ...seg, sceneId: only.id })) };
+};
+
+// --- Edits; each returns new arrays, like the script edits ---
+
+export const updateScene = (scenes: SceneContext[], id: string, patch: Partial<SceneContext>): SceneContext[] =>
+  scenes.map(s => s.id === id ? { ...s, ...patch, id } : s);
+
+// The new scene starts as a copy of the one it interrupts and runs to where that one would have ended
+export const startSceneAt = (analysis: AnalysisResult, index: number): AnalysisResult => {
+  const ids = segmentSceneIds(analysis.segments, analysis.scenes);
+  const current = ids[index];
+  if (index === 0 || ids[index - 1] !== current) return analysis;
+  const source = analysis.scenes.find(s => s.id === current) ?? primaryScene(analysis);
+  const scene: SceneContext = { ...source, id: createSceneId(), ambientSounds: [...source.ambientSounds] };
+  let end = index;
+  while (end < ids.length && ids[end] === current) end++;
+  const segments = analysis.segments.map((seg, i) => i >= index && i < end ? { ...seg, sceneId: scene.id } : seg);
+  const at = analysis.scenes.findIndex(s => s.id === current);
+  const scenes = [...analysis.scenes.slice(0, at + 1), scene, ...analysis.scenes.slice(at + 1)];
+  return { ...analysis, segments, scenes };
+};
+
+// Folds a scene into whichever scene plays before it on the timeline
+export const mergeSceneIntoPrevious = (analysis: AnalysisResult, id: string): AnalysisResult => {
+  const ids = segmentSceneIds(analysis.segments, analysis.scenes);
+  const first = ids.indexOf(id);
+  const previous = first > 0 ? ids[first - 1] : analysis.scenes[analysis.scenes.findIndex(s => s.id === id) - 1]?.id;
+  if (!previous) return analysis;
+  const segments = analysis.segments.map((seg, i) => ids[i] === id ? { ...seg, sceneId: previous } : seg);
+  return { ...analysis, segments, scenes: analysis.scenes.filter(s => s.id !== id) };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedSegment } from '../types';
+import { applyDirectionMarkup } from './directionMarkup';
+import { applyMarkupAt, mergeWithNext, splitSegment } from './scriptEditing';
+
+const seg = (id: string, text: string, extra: Partial<ParsedSegment> = {}): ParsedSegment => ({
+  id, text, originalText: text, speaker: 'Anna', isNarrator: false, gender: 'female', emotion: 'neutral', ...extra
+});
+
+describe('splitSegment', () => {
+  it('cuts the marked-up original at the same words as the text', () => {
+    const [line] = applyDirectionMarkup([seg('s1', '[sfx: door] Who is *there* at this hour?')]);
+    const out = splitSegment([line], 0, line.text.indexOf('at'));
+    expect(out.map(s => s.text)).toEqual(['Who is there', 'at this hour?']);
+    expect(out.map(s => s.originalText)).toEqual(['[sfx: door] Who is *there*', 'at this hour?']);
+  });
+
+  it('reopens an emphasis or whisper the cut falls inside', () => {
+    const [line] = applyDirectionMarkup([seg('s1', '[whisper] Keep *very quiet* now. [/whisper]')]);
+    const out = splitSegment([line], 0, line.text.indexOf('quiet'));
+    expect(out.map(s => s.originalText)).toEqual(['[whisper] Keep *very*', '[whisper] *quiet* now. [/whisper]']);
+    expect(applyDirectionMarkup(out.map(s => ({ ...s, text: s.originalText }))).map(s => s.direction))
+      .toEqual(['Whisper this line. Emphasize "very".', 'Whisper this line. Emphasize "quiet".']);
+  });
+
+  it('falls back to the text when the original was retyped', () => {
+    const out = splitSegment([seg('s1', 'Brand new words here', { originalText: 'Old *words*' })], 0, 10);
+    expect(out.map(s => s.originalText)).toEqual(['Brand new', 'words here']);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins the two originals so a later parse keeps their cues', () => {
+    const lines = applyDirectionMarkup([seg('s1', '[sfx: wind] It was cold. [pause 1s] *Very* cold.')]);
+    const [merged] = mergeWithNext(lines, 0);
+    expect(merged.text).toBe('It was cold. Very cold.');
+    expect(merged.originalText).toBe('[sfx: wind] It was cold. [pause 1s] *Very* cold.');
+    expect(applyDirectionMarkup([{ ...merged, text: merged.originalText }]).map(s => [s.sfx, s.pauseAfter, s.direction]))
+      .toEqual([['wind', 1, undefined], [undefined, undefined, 'Emphasize "Very".']]);
+  });
+});
+
+describe('applyMarkupAt', () => {
+  it('parses markup typed into a line and keeps the line id on its first piece', () => {
+    const out = applyMarkupAt([seg('s1', 'Before.'), seg('s2', 'Hold on. [pause 2s] Go.')], 1);
+    expect(out.map(s => s.text)).toEqual(['Before.', 'Hold on.', 'Go.']);
+    expect(out[1]).toMatchObject({ id: 's2', pauseAfter: 2 });
+    expect(out[2].id).not.toBe('s2_d1');
+  });
+
+  it('leaves a line without markup alone', () => {
+    const segments = [seg('s1', 'Plain.')];
+    expect(applyMarkupAt(segments, 0)).toBe(segments);
+  });
+});
@@ -0,0 +1,64 @@
+import { ParsedSegment } from "../types";
+import { applyDirectionMarkup, hasDirectionMarkup, splitMarkup } from './directionMarkup';
+
+// Pure edits over the Director's Script. Each returns a new array; untouched segments keep
+// their identity so their speech tasks (and cached renders) stay valid.
+
+let editCounter = 0;
+export const createSegmentId = () => `seg_edit_${Date.now().toString(36)}_${editCounter++}`;
+
+export const updateSegment = (segments: ParsedSegment[], index: number, patch: Partial<ParsedSegment>): ParsedSegment[] =>
+  segments.map((seg, i) => i === index ? { ...seg, ...patch } : seg);
+
+export const splitSegment = (segments: ParsedSegment[], index: number, at: number): ParsedSegment[] => {
+  const seg = segments[index];
+  const head = seg.text.slice(0, at).trim();
+  const tail = seg.text.slice(at).trim();
+  if (!head || !tail) return segments;
+  // The markup is cut at the same place; an original that was retyped since falls back to the text
+  const [headOriginal, tailOriginal] = splitMarkup(seg.originalText, seg.text, at) ?? [head, tail];
+  // SFX fire at the start of a segment, so the cue stays with the first half; pauses keep their side
+  const first: ParsedSegment = { ...seg, text: head, originalText: headOriginal, pauseAfter: undefined };
+  const second: ParsedSegment = { ...seg, id: createSegmentId(), text: tail, originalText: tailOriginal, sfx: undefined, pauseBefore: undefined };
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+export const mergeWithNext = (segments: ParsedSegment[], index: number): ParsedSegment[] => {
+  const seg = segments[index];
+  const next = segments[index + 1];
+  if (!next) return segments;
+  const text = `${seg.text.trim()} ${next.text.trim()}`;
+  const originalText = `${seg.originalText.trim()} ${next.originalText.trim()}`.trim();
+  const merged: ParsedSegment = { ...seg, text, originalText, sfx: seg.sfx || next.sfx, pauseAfter: next.pauseAfter };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+export const insertSegmentAfter = (segments: ParsedSegment[], index: number): ParsedSegment[] => {
+  const seg = segments[index];
+  const inserted: ParsedSegment = {
+    id: createSegmentId(),
+    text: '',
+    originalText: '',
+    speaker: seg?.speaker ?? 'Narrator',
+    isNarrator: seg?.isNarrator ?? true,
+    gender: seg?.gender ?? 'neutral',
+    emotion: seg?.emotion ?? 'Matter-of-fact'
+  };
+  return [...segments.slice(0, index + 1), inserted, ...segments.slice(index + 1)];
+};
+
+export const deleteSegment = (segments: ParsedSegment[], index: number): ParsedSegment[] =>
+  segments.filter((_, i) => i !== index);
+
+// Markup typed into a line is parsed when the edit is committed, so it is never spoken. The line
+// before goes through too, to take a pause or cue that has no words of its own to attach to.
+export const applyMarkupAt = (segments: ParsedSegment[], index: number): ParsedSegment[] => {
+  const seg = segments[index];
+  if (!seg || !hasDirectionMarkup(seg.text)) return segments;
+  const from = Math.max(0, index - 1);
+  const kept = new Set(segments.slice(from, index + 1).map(s => s.id));
+  // Extra pieces get fresh ids: re-parsing a line must not collide with pieces an earlier parse made
+  const parsed = applyDirectionMarkup(segments.slice(from, index + 1))
+    .map(piece => kept.has(piece.id) ? piece : { ...piece, id: createSegmentId() });
+  return [...segments.slice(0, from), ...parsed, ...segments.slice(index + 1)];
+};
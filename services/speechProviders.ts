@@ -0,0 +1,56 @@
+import { AVAILABLE_VOICES, SpeechProviderId, VoiceOption } from "../types";
+import { generateSpeech, hasGeminiApiKey } from './geminiService';
+import { synthesizeLocalSpeech, LOCAL_SAMPLE_RATE, LOCAL_VOICES } from './localSpeech';
+import { resampleInt16, SAMPLE_RATE } from './audioEngine';
+import { withRetry } from './retry';
+
+export interface SpeechProvider {
+  id: SpeechProviderId;
+  label: string;
+  voices: VoiceOption[];
+  defaultVoiceId: string;
+  narratorVoiceId: string;
+  sampleRate: number; // Rate of the mono Int16 PCM that synthesize() resolves with
+  requiresNetwork: boolean;
+  synthesize: (text: string, voiceId: string, context: string) => Promise<Int16Array>;
+}
+
+export const SPEECH_PROVIDERS: Record<SpeechProviderId, SpeechProvider> = {
+  gemini: {
+    id: 'gemini',
+    label: 'Gemini TTS',
+    voices: AVAILABLE_VOICES,
+    defaultVoiceId: 'Puck',
+    narratorVoiceId: 'Fenrir',
+    sampleRate: 24000,
+    requiresNetwork: true,
+    synthesize: generateSpeech
+  },
+  local: {
+    id: 'local',
+    label: 'Offline Formant',
+    voices: LOCAL_VOICES,
+    defaultVoiceId: 'Puck',
+    narratorVoiceId: 'Fenrir',
+    sampleRate: LOCAL_SAMPLE_RATE,
+    requiresNetwork: false,
+    synthesize: synthesizeLocalSpeech
+  }
+};
+
+export const getSpeechProvider = (id: SpeechProviderId): SpeechProvider => SPEECH_PROVIDERS[id];
+
+export const defaultSpeechProviderId = (): SpeechProviderId => hasGeminiApiKey() ? 'gemini' : 'local';
+
+// Every provider is brought to the engine rate here, so the mixer only ever sees one format
+export const synthesizeSpeech = async (
+  provider: SpeechProvider,
+  text: string,
+  voiceId: string,
+  context: string
+): Promise<Int16Array> => {
+  const raw = provider.requiresNetwork
+    ? await withRetry(() => provider.synthesize(text, voiceId, context))
+    : await provider.synthesize(text, voiceId, context);
+  return resampleInt16(raw, provider.sampleRate, SAMPLE_RATE);
+};
@@ -0,0 +1,86 @@
+import { LexiconEntry, ParsedSegment, SpeechProviderId } from "../types";
+import { applyLexicon, pronunciationInstruction } from './lexicon';
+
+export const NARRATOR_CONTEXT = "Strictly matter-of-fact delivery. Professional, neutral narrator. No emotion.";
+
+export interface SpeechTask {
+   startIndex: number;
+   indices: number[];
+   textToSpeak: string;
+   speaker: string;
+   isNarrator: boolean;
+}
+
+// Consecutive lines from the same voice are rendered in one call, unless an SFX cue sits between them
+// or the delivery changes: each task is spoken with one emotion and direction
+export const createSpeechTasks = (segments: ParsedSegment[], lexicon: LexiconEntry[] = []): SpeechTask[] => {
+    const tasks: SpeechTask[] = [];
+    let currentTask: SpeechTask | null = null;
+    segments.forEach((seg, index) => {
+       let canMerge = false;
+       if (currentTask) {
+           const prevSeg = segments[currentTask.indices[currentTask.indices.length-1]];
+           // Pauses and direction changes need their own render to land in the timeline
+           if (seg.speaker === currentTask.speaker &&
+               seg.isNarrator === currentTask.isNarrator &&
+               !seg.sfx && !prevSeg.sfx &&
+               !prevSeg.pauseAfter && !seg.pauseBefore &&
+               seg.direction === prevSeg.direction &&
+               // The narrator context ignores emotion, so only character lines split on it
+               (seg.isNarrator || seg.emotion === prevSeg.emotion)) {
+               canMerge = true;
+           }
+       }
+       if (canMerge && currentTask) {
+           currentTask.indices.push(index);
+           const space = seg.text.startsWith(' ') ? '' : ' ';
+           currentTask.textToSpeak += space + seg.text;
+       } else {
+           if (currentTask) tasks.push(currentTask);
+           currentTask = {
+               startIndex: index,
+               indices: [index],
+               textToSpeak: seg.text,
+               speaker: seg.speaker,
+               isNarrator: seg.isNarrator
+           };
+       }
+    });
+    if (currentTask) tasks.push(currentTask);
+    tasks.forEach(task => { task.textToSpeak = applyLexicon(task.textToSpeak, lexicon); });
+    return tasks;
+};
+
+interface ContextExtras {
+  direction?: string; // From inline markup: whisper, emphasis
+  notes?: string; // Character bible delivery notes
+  pronunciation?: string;
+}
+
+export const speechContext = (speaker: string, isNarrator: boolean, emotion: string, extras: ContextExtras = {}) => {
+  const base = isNarrator
+    ? NARRATOR_CONTEXT
+    : `Character: ${speaker}. Deliver text with emotion: ${emotion}.`;
+  const { direction, notes, pronunciation } = extras;
+  return [base, direction, notes?.trim() && `Voice notes: ${notes.trim()}`, pronunciation].filter(Boolean).join(' ');
+};
+
+// Pronunciation hints are matched against the unsubstituted text, so only tasks using a word carry its hint
+export const speechTaskContext = (task: SpeechTask, segments: ParsedSegment[], notes?: string, lexicon: LexiconEntry[] = []) =>
+  speechContext(task.speaker, task.isNarrator, segments[task.startIndex].emotion, {
+    direction: segments[task.startIndex].direction,
+    notes,
+    pronunciation: pronunciationInstruction(task.indices.map(i => segments[i].text).join(' '), lexicon)
+  });
+
+// Everything that changes the rendered audio. Edits that leave it untouched reuse the previous render.
+export const speechTaskSignature = (providerId: SpeechProviderId, voiceId: string, context: string, task: SpeechTask) =>
+  `${providerId}|${voiceId}|${context}|${task.textToSpeak.trim()}`;
+
+const renderedSpeech = new Map<string, Int16Array>();
+
+export const getRenderedSpeech = (signature: string) => renderedSpeech.get(signature);
+
+export const storeRenderedSpeech = (signature: string, audio: Int16Array) => {
+  renderedSpeech.set(signature, audio);
+};
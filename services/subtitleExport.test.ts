@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentTiming } from '../types';
+import { buildSRT, buildTimingMap, buildWebVTT } from './subtitleExport';
+
+const timings: SegmentTiming[] = [
+  { id: 'seg_0', start: 0, end: 1.5, speaker: 'Narrator', isNarrator: true, text: 'It was late.' },
+  { id: 'seg_1', start: 1.75, end: 3.2505, speaker: 'Tom & Jo', isNarrator: false, text: 'Is <that> you?' }
+];
+
+describe('subtitle export', () => {
+  it('writes numbered SRT cues with speaker labels on dialogue only', () => {
+    expect(buildSRT(timings)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nIt was late.\n\n' +
+      '2\n00:00:01,750 --> 00:00:03,251\nTOM & JO: Is <that> you?\n'
+    );
+  });
+
+  it('writes WebVTT voice spans and escapes markup characters', () => {
+    expect(buildWebVTT(timings)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nIt was late.\n\n' +
+      '00:00:01.750 --> 00:00:03.251\n<v Tom &amp; Jo>Is &lt;that&gt; you?\n'
+    );
+  });
+
+  it('splits long narration into sentence cues that share its time', () => {
+    const sentence = 'The road ran on through fields of barley and over the hill to the sea. ';
+    const srt = buildSRT([{ id: 's', start: 10, end: 20, speaker: 'Narrator', isNarrator: true, text: sentence.repeat(2).trim() }]);
+    const cues = srt.trim().split('\n\n').map(cue => cue.split('\n'));
+    expect(cues.map(([, , text]) => text)).toEqual([sentence.trim(), sentence.trim()]);
+    const [[, first], [, second]] = cues;
+    expect(first.startsWith('00:00:10,000 --> ')).toBe(true);
+    expect(second.endsWith(' --> 00:00:20,000')).toBe(true);
+    expect(first.split(' --> ')[1]).toBe(second.split(' --> ')[0]);
+  });
+
+  it('rounds the timing map to milliseconds', () => {
+    expect(JSON.parse(buildTimingMap(timings))[1]).toEqual({ id: 'seg_1', start: 1.75, end: 3.251, speaker: 'Tom & Jo' });
+  });
+});
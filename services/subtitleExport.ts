@@ -0,0 +1,80 @@
+import { SegmentTiming, SubtitleFormat } from "../types";
+import { downloadBlob, slugify } from './exportService';
+
+const MAX_CUE_CHARS = 90;
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string | null; // null for narration, which reads better unlabeled
+  text: string;
+}
+
+// Long narration paragraphs become several cues, split at sentence ends with time shared by length
+const toCues = (timings: SegmentTiming[]): Cue[] => timings.flatMap(t => {
+  const speaker = t.isNarrator ? null : t.speaker;
+  const text = t.text.replace(/\s+/g, ' ').trim();
+  if (text.length <= MAX_CUE_CHARS) return [{ start: t.start, end: t.end, speaker, text }];
+
+  const sentences = text.match(/[^.!?]+[.!?]+["'”’]?\s*|[^.!?]+$/g) || [text];
+  const parts: string[] = [];
+  sentences.forEach(sentence => {
+    const last = parts[parts.length - 1];
+    if (last !== undefined && last.length + sentence.length <= MAX_CUE_CHARS) parts[parts.length - 1] = last + sentence;
+    else parts.push(sentence);
+  });
+
+  const duration = t.end - t.start;
+  let cursor = t.start;
+  return parts.map(part => {
+    const start = cursor;
+    cursor += duration * (part.length / text.length);
+    return { start, end: cursor, speaker, text: part.trim() };
+  });
+});
+
+const timestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  const pad = (v: number, n: number = 2) => String(v).padStart(n, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const buildSRT = (timings: SegmentTiming[]) =>
+  toCues(timings).map((cue, i) => [
+    String(i + 1),
+    `${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}`,
+    cue.speaker ? `${cue.speaker.toUpperCase()}: ${cue.text}` : cue.text
+  ].join('\n')).join('\n\n') + '\n';
+
+const escapeVTT = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const buildWebVTT = (timings: SegmentTiming[]) =>
+  'WEBVTT\n\n' + toCues(timings).map(cue => [
+    `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}`,
+    cue.speaker ? `<v ${escapeVTT(cue.speaker)}>${escapeVTT(cue.text)}` : escapeVTT(cue.text)
+  ].join('\n')).join('\n\n') + '\n';
+
+export const buildTimingMap = (timings: SegmentTiming[]) =>
+  JSON.stringify(timings.map(({ id, start, end, speaker }) => ({
+    id,
+    start: Number(start.toFixed(3)),
+    end: Number(end.toFixed(3)),
+    speaker
+  })), null, 2);
+
+const SUBTITLE_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json'
+};
+
+export const exportSubtitles = (timings: SegmentTiming[], format: SubtitleFormat, title: string) => {
+  const content = format === 'srt' ? buildSRT(timings)
+    : format === 'vtt' ? buildWebVTT(timings)
+    : buildTimingMap(timings);
+  const suffix = format === 'json' ? '-timings.json' : `.${format}`;
+  downloadBlob(new Blob([content], { type: SUBTITLE_TYPES[format] }), `${slugify(title, 'voxnovel')}${suffix}`);
+};
@@ -4,10 +4,16 @@ export interface ParsedSegment {
   text: string;
   originalText: string;
   speaker: string;
+  originalSpeaker?: string; // Speaker as attributed, before alias resolution merged it into `speaker`
+  canonicalSpeaker?: string; // Model's hint at the fuller name behind a variant
   isNarrator: boolean;
   gender: 'male' | 'female' | 'neutral';
   emotion: string;
   sfx?: string; // New field for sound effects
+  sceneId?: string; // Scene this segment plays in; unset means the scene of the segment before it
+  direction?: string; // Delivery instruction from inline markup, e.g. whisper or emphasis
+  pauseBefore?: number; // Seconds of silence from [pause] markup
+  pauseAfter?: number;
   assignedVoiceId?: string;
   audioBuffer?: AudioBuffer;
   speechDuration?: number; // Duration of speech before reverb/tails
@@ -17,9 +23,21 @@ export interface CharacterProfile {
   name: string;
   gender: 'male' | 'female' | 'neutral';
   voiceId: string;
+  notes?: string; // Delivery notes from the character bible, passed to the speech engine
+  pan?: number; // -1 (left) to 1 (right); the narrator always stays centred
+  distance?: number; // 0 (close mic) to 1 (across the room)
+}
+
+export interface CharacterBibleEntry {
+  name: string;
+  gender: CharacterProfile['gender'];
+  voiceId: string;
+  aliases: string[];
+  notes: string;
 }
 
 export interface SceneContext {
+  id: string;
   location: string;
   timeOfDay: string;
   mood: string;
@@ -29,22 +47,107 @@ export interface SceneContext {
   narrativePerspective: 'first_person' | 'third_person';
   protagonistName?: string;
   ambientSounds: string[]; // List of specific sounds to generate
+  reverb?: string; // Reverb preset or custom impulse id; absent picks a preset from the location
+}
+
+export type ReverbPresetId = 'small_room' | 'hall' | 'cathedral' | 'outdoors' | 'cave' | 'car';
+
+export interface CustomImpulse {
+  id: string;
+  name: string;
+  audio: SerializedAudioBuffer; // Decoded at SAMPLE_RATE so a convolver can take it as-is
+}
+
+export interface SpeakerGroup {
+  canonical: string;
+  variants: string[]; // Raw speaker names merged into `canonical`, including it when it was attributed directly
+  confirmed: boolean;
 }
 
 export interface AnalysisResult {
   segments: ParsedSegment[];
+  scenes: SceneContext[]; // In story order
+  speakerGroups?: SpeakerGroup[];
+}
+
+export interface BookChapter {
+  id: string;
+  title: string;
+  mix: AudioBuffer; // Rendered master of one production, frozen when the chapter was added
+  duration: number;
   scene: SceneContext;
 }
 
+export interface BookCover {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface BookMetadata {
+  title: string;
+  author: string;
+  cover?: BookCover;
+}
+
+export interface Book {
+  metadata: BookMetadata;
+  chapters: BookChapter[];
+}
+
+export interface ManuscriptChapter {
+  id: string;
+  title: string;
+  text: string;
+}
+
+export interface ImportedManuscript {
+  metadata: BookMetadata;
+  chapters: ManuscriptChapter[];
+}
+
+export interface SegmentTiming {
+  id: string;
+  start: number; // Seconds into the dialogue track
+  end: number;
+  speaker: string;
+  isNarrator: boolean;
+  text: string;
+}
+
 export interface AudioTracks {
   dialogue: AudioBuffer;
   score: AudioBuffer;
   ambience: AudioBuffer;
   sfx: AudioBuffer; // New track
   duration: number;
+  timings: SegmentTiming[];
 }
 
-export const AVAILABLE_VOICES = [
+export type TrackKey = 'dialogue' | 'score' | 'ambience' | 'sfx';
+
+export type MixLevels = Record<TrackKey, number>;
+
+// Score and ambience dip under speech
+export interface DuckingSettings {
+  enabled: boolean;
+  depthDb: number; // How far the beds drop while someone speaks
+  attack: number; // Seconds to reach full depth, ending as the line starts
+  release: number; // Seconds to recover after the line ends
+}
+
+export type ExportFormat = 'wav' | 'mp3';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'json';
+
+export interface VoiceOption {
+  id: string;
+  gender: 'male' | 'female' | 'neutral';
+  style: string;
+}
+
+export type SpeechProviderId = 'gemini' | 'local';
+
+export const AVAILABLE_VOICES: VoiceOption[] = [
   { id: 'Puck', gender: 'male', style: 'Playful, Neutral' },
   { id: 'Kore', gender: 'female', style: 'Calm, Soothing' },
   { id: 'Fenrir', gender: 'male', style: 'Deep, Resonant' },
@@ -52,4 +155,91 @@ export const AVAILABLE_VOICES = [
   { id: 'Zephyr', gender: 'female', style: 'Soft, Gentle' },
 ];
 
+export type ScriptFormat = 'prose' | 'fountain';
+
+export interface LexiconEntry {
+  id: string;
+  word: string;
+  pronunciation: string;
+  kind: 'respelling' | 'ipa'; // Respellings replace the word in the text; IPA goes to the TTS instruction
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export type AnalyzerId = 'gemini' | 'local';
+
+export interface SerializedAudioBuffer {
+  sampleRate: number;
+  length: number;
+  channels: Float32Array[];
+}
+
+export interface SerializedTracks {
+  dialogue: SerializedAudioBuffer;
+  score: SerializedAudioBuffer;
+  ambience: SerializedAudioBuffer;
+  sfx: SerializedAudioBuffer;
+  duration: number;
+  timings: SegmentTiming[];
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  text: string;
+  scriptFormat: ScriptFormat;
+  analyzer?: AnalyzerId; // Absent on projects saved before the offline analyzer existed
+  analysis: AnalysisResult | null;
+  characterProfiles: CharacterProfile[];
+  lexicon?: LexiconEntry[];
+  mixLevels: MixLevels;
+  ducking?: DuckingSettings;
+  speechProvider?: SpeechProviderId; // Absent on projects saved before providers existed
+  stereo?: boolean; // Absent on projects rendered before the stereo mix, which were mono
+  impulses?: CustomImpulse[]; // Uploaded impulse responses scenes can pick as their reverb
+  hasAudio: boolean;
+}
+
+export type ProjectSummary = Pick<Project, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'hasAudio'>;
+
+export type MasteringTargetId = 'acx' | 'podcast' | 'ebu';
+
+export interface LoudnessMeasurement {
+  integratedLufs: number; // ITU-R BS.1770 gated loudness
+  rmsDb: number; // Unweighted RMS over the whole file, as ACX measures it
+  truePeakDb: number; // dBTP, 4x oversampled
+  noiseFloorDb: number; // Level of the quietest stretches
+}
+
+export interface MasteringCheck {
+  measure: keyof LoudnessMeasurement;
+  label: string;
+  value: number;
+  requirement: string;
+  pass: boolean;
+}
+
+export interface MasteringReport {
+  target: MasteringTargetId;
+  before: LoudnessMeasurement;
+  after: LoudnessMeasurement;
+  gainDb: number;
+  limitedDb: number; // Deepest gain reduction the limiter applied
+  checks: MasteringCheck[];
+  pass: boolean;
+}
+
+export type FillerKind = 'silence' | 'placeholder';
+
+export interface SynthesisFailure {
+  signature: string; // Speech task signature, so a retry targets exactly the render that failed
+  segmentIds: string[];
+  speaker: string;
+  text: string;
+  error: string;
+  fill: FillerKind;
+}
+
 export type ProcessingState = 'idle' | 'analyzing' | 'reviewing' | 'generating_speech' | 'mixing' | 'playing' | 'error';